@@ -0,0 +1,28 @@
+/**
+ * Load KEY=value pairs from .env files at the project root into process.env.
+ * Variables already set in the environment win over file values.
+ */
+
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+export function loadEnvFiles(rootDir, fileNames = ['.env.local', '.env']) {
+  for (const fileName of fileNames) {
+    let raw
+    try {
+      raw = readFileSync(path.join(rootDir, fileName), 'utf-8')
+    } catch {
+      continue
+    }
+
+    for (const line of raw.split(/\r?\n/)) {
+      const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line)
+      if (!match) continue
+      const [, key, rawValue] = match
+      const value = rawValue.replace(/^(['"])(.*)\1$/, '$2')
+      if (process.env[key] === undefined) {
+        process.env[key] = value
+      }
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * /api/expenses - CRUD for stored expenses
+ *
+ * Expenses are stored as the client sends them (see StoredExpense in
+ * src/types/expense.ts). The server only owns `id` and the timestamps.
+ * The original receipt file lives at /api/expenses/:id/receipt.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { HttpError, decodeComponent, readBody, readJson, sendJson } from './http.js'
+
+const COLLECTION = 'expenses'
+const RECEIPT_COLLECTION = 'receipts'
+
+function assertExpenseBody(body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Expense must be a JSON object')
+  }
+}
+
+export function expenseRoutes(store, dataDir) {
+  const receiptDir = path.join(dataDir, 'receipts')
+  const receiptFile = (id) => path.join(receiptDir, encodeURIComponent(id))
+
+  return [
+    {
+      method: 'GET',
+      path: /^\/api\/expenses$/,
+      async handler(req, res) {
+        const expenses = await store.list(COLLECTION)
+        expenses.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+        sendJson(res, 200, { success: true, expenses })
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/expenses\/([^/]+)$/,
+      async handler(req, res, [id]) {
+        const expense = await store.get(COLLECTION, id)
+        if (!expense) throw new HttpError(404, `Expense ${id} not found`)
+        sendJson(res, 200, { success: true, expense })
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/api\/expenses$/,
+      async handler(req, res) {
+        const body = await readJson(req)
+        assertExpenseBody(body)
+        const now = new Date().toISOString()
+        const expense = {
+          ...body,
+          id: body.id || randomUUID(),
+          createdAt: body.createdAt || now,
+          updatedAt: now,
+        }
+        await store.upsert(COLLECTION, expense)
+        sendJson(res, 201, { success: true, expense })
+      },
+    },
+    {
+      method: 'PUT',
+      path: /^\/api\/expenses\/([^/]+)$/,
+      async handler(req, res, [id]) {
+        const body = await readJson(req)
+        assertExpenseBody(body)
+        const existing = await store.get(COLLECTION, id)
+        const now = new Date().toISOString()
+        const expense = {
+          ...body,
+          id,
+          createdAt: existing?.createdAt || body.createdAt || now,
+          updatedAt: now,
+        }
+        await store.upsert(COLLECTION, expense)
+        sendJson(res, existing ? 200 : 201, { success: true, expense })
+      },
+    },
+    {
+      method: 'DELETE',
+      path: /^\/api\/expenses\/([^/]+)$/,
+      async handler(req, res, [id]) {
+        const removed = await store.remove(COLLECTION, id)
+        if (!removed) throw new HttpError(404, `Expense ${id} not found`)
+        await store.remove(RECEIPT_COLLECTION, id)
+        await fs.rm(receiptFile(id), { force: true })
+        sendJson(res, 200, { success: true })
+      },
+    },
+    {
+      method: 'PUT',
+      path: /^\/api\/expenses\/([^/]+)\/receipt$/,
+      async handler(req, res, [id]) {
+        const fileName = decodeComponent(String(req.headers['x-file-name'] || 'receipt'), 'X-File-Name header')
+        const bytes = await readBody(req)
+        if (bytes.length === 0) throw new HttpError(400, 'Receipt body is empty')
+
+        await fs.mkdir(receiptDir, { recursive: true })
+        await fs.writeFile(receiptFile(id), bytes)
+        await store.upsert(RECEIPT_COLLECTION, {
+          id,
+          file_name: fileName,
+          mime_type: req.headers['content-type'] || 'application/octet-stream',
+          file_size: bytes.length,
+        })
+        sendJson(res, 200, { success: true })
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/expenses\/([^/]+)\/receipt$/,
+      async handler(req, res, [id]) {
+        const receipt = await store.get(RECEIPT_COLLECTION, id)
+        if (!receipt) throw new HttpError(404, `No receipt stored for expense ${id}`)
+
+        const bytes = await fs.readFile(receiptFile(id))
+        res.writeHead(200, {
+          'Content-Type': receipt.mime_type,
+          'Content-Length': bytes.length,
+          'X-File-Name': encodeURIComponent(receipt.file_name),
+        })
+        res.end(bytes)
+      },
+    },
+  ]
+}
@@ -0,0 +1,84 @@
+/**
+ * HTTP helpers shared by the ExpenseFlow dev server routes
+ */
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024
+
+/**
+ * Error carrying an HTTP status code. Thrown by route handlers and
+ * converted to a JSON error response by the router.
+ */
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message)
+    this.status = status
+  }
+}
+
+export function sendJson(res, status, body) {
+  const payload = JSON.stringify(body)
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+  })
+  res.end(payload)
+}
+
+export function sendError(res, status, error) {
+  sendJson(res, status, { success: false, error })
+}
+
+/**
+ * Read the full request body into a Buffer
+ */
+export async function readBody(req) {
+  const chunks = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large')
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+export async function readJson(req) {
+  const body = await readBody(req)
+  if (body.length === 0) return {}
+  try {
+    return JSON.parse(body.toString('utf-8'))
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON')
+  }
+}
+
+/**
+ * decodeURIComponent for request input: malformed percent-encoding is the
+ * client's mistake, so it becomes a 400 rather than a URIError
+ */
+export function decodeComponent(value, what) {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    throw new HttpError(400, `${what} is not valid percent-encoding`)
+  }
+}
+
+/**
+ * Parse a multipart/form-data body using the platform Request implementation
+ */
+export async function readFormData(req) {
+  const contentType = req.headers['content-type'] || ''
+  if (!contentType.startsWith('multipart/form-data')) {
+    throw new HttpError(400, 'Expected multipart/form-data')
+  }
+  const body = await readBody(req)
+  const request = new Request('http://localhost/', {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body,
+  })
+  return request.formData()
+}
@@ -0,0 +1,89 @@
+/**
+ * ExpenseFlow Dev Server
+ *
+ * Small dependency-free Node server that runs next to Vite so the whole app
+ * can work offline with data shared between browsers.
+ *
+ * Routes:
+ * - GET/POST        /api/expenses
+ * - GET/PUT/DELETE  /api/expenses/:id
+ * - GET/PUT         /api/expenses/:id/receipt
+ * - POST            /api/upload
+ * - GET             /api/uploads/:assetId
+ * - GET             /api/reports
+ * - *               /api/lyzr/(agent|rag)/*  (Lyzr API proxy, see lyzrProxy.js)
+ *
+ * Environment (also read from .env.local / .env at the project root):
+ * - EXPENSE_SERVER_PORT (default 8787)
+ * - EXPENSE_DATA_DIR    (default server/data)
+ * - LYZR_API_KEY        (used by the Lyzr proxy)
+ *
+ * Usage: npm run server  (Vite proxies /api to this server in dev)
+ */
+
+import http from 'node:http'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { loadEnvFiles } from './env.js'
+import { createJsonStore } from './store.js'
+import { HttpError, decodeComponent, sendError } from './http.js'
+import { expenseRoutes } from './expenses.js'
+import { uploadRoutes } from './uploads.js'
+import { reportRoutes } from './reports.js'
+import { lyzrProxyRoutes } from './lyzrProxy.js'
+
+const SERVER_DIR = path.dirname(fileURLToPath(import.meta.url))
+loadEnvFiles(path.join(SERVER_DIR, '..'))
+
+const PORT = Number(process.env.EXPENSE_SERVER_PORT) || 8787
+const DATA_DIR = process.env.EXPENSE_DATA_DIR
+  || path.join(SERVER_DIR, 'data')
+
+const store = createJsonStore(DATA_DIR)
+
+const routes = [
+  ...expenseRoutes(store, DATA_DIR),
+  ...uploadRoutes(store, DATA_DIR),
+  ...reportRoutes(store),
+  ...lyzrProxyRoutes(),
+]
+
+async function handleRequest(req, res) {
+  const { pathname } = new URL(req.url, 'http://localhost')
+
+  const pathMatches = routes
+    .map(route => ({ route, match: route.path.exec(pathname) }))
+    .filter(({ match }) => match)
+
+  if (pathMatches.length === 0) {
+    throw new HttpError(404, `No route for ${pathname}`)
+  }
+
+  const matched = pathMatches.find(({ route }) => route.method === req.method || route.method === '*')
+  if (!matched) {
+    throw new HttpError(405, `Method ${req.method} not allowed on ${pathname}`)
+  }
+
+  const params = matched.match.slice(1).map(param => decodeComponent(param, 'Path segment'))
+  await matched.route.handler(req, res, params)
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    await handleRequest(req, res)
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500
+    if (status === 500) {
+      console.error(`[server] ${req.method} ${req.url} failed:`, error)
+    }
+    if (!res.headersSent) {
+      sendError(res, status, status === 500 ? 'Internal server error' : error.message)
+    } else {
+      res.end()
+    }
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`[server] ExpenseFlow API listening on http://localhost:${PORT} (data: ${DATA_DIR})`)
+})
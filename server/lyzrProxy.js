@@ -0,0 +1,180 @@
+/**
+ * /api/lyzr/* - server-side proxy for the Lyzr APIs
+ *
+ * The browser calls these routes when VITE_USE_LYZR_PROXY=true. The proxy
+ * adds LYZR_API_KEY on the server, applies per-user rate limits and logs
+ * every request. Each user (the `x-user-id` header) gets its own limit per
+ * client address. The header is chosen by the client, so the address as a
+ * whole has a higher cap too: making up new user ids doesn't lift it.
+ * Only the upstream paths the app actually uses are allowed, checked on the
+ * decoded path and again on the URL that is actually requested.
+ *
+ * Environment:
+ * - LYZR_API_KEY                  (required)
+ * - LYZR_PROXY_RATE_LIMIT         requests per user per window (default 30)
+ * - LYZR_PROXY_ADDRESS_RATE_LIMIT requests per client address per window (default 120)
+ * - LYZR_PROXY_RATE_WINDOW_MS     window length in ms (default 60000)
+ */
+
+import { HttpError, readBody, sendError } from './http.js'
+
+const UPSTREAMS = {
+  agent: {
+    baseUrl: 'https://agent-prod.studio.lyzr.ai/v3',
+    allowed: [
+      { method: 'POST', path: /^inference\/chat\/?$/ },
+      { method: 'POST', path: /^assets\/upload$/ },
+    ],
+  },
+  rag: {
+    baseUrl: 'https://rag-prod.studio.lyzr.ai/v3',
+    allowed: [
+      { method: 'GET', path: /^rag\/documents\/[^/]+\/$/ },
+      { method: 'POST', path: /^parse\/(pdf|docx|txt)\/$/ },
+      { method: 'POST', path: /^rag\/train\/[^/]+\/$/ },
+      { method: 'DELETE', path: /^rag\/[^/]+\/docs\/$/ },
+    ],
+  },
+}
+
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept']
+
+/**
+ * Decoded path pieces that would let an allowed-looking path reach another
+ * upstream path once fetch parses it: dot segments, a query or fragment, a
+ * backslash, or percent-encoding left over from double encoding
+ */
+const UNSAFE_PATH_PATTERN = /(^|\/)\.\.?(\/|$)|[?#%\\]/
+
+/**
+ * Fixed-window rate limiter. Expired windows are
+ * swept at most once per window length, so keys that stop sending requests
+ * don't accumulate.
+ */
+function createRateLimiter(limit, windowMs) {
+  const windows = new Map()
+  let sweptAt = Date.now()
+
+  const sweep = (now) => {
+    if (now - sweptAt < windowMs) return
+    sweptAt = now
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key)
+    }
+  }
+
+  return {
+    /** Returns the number of ms to wait, or 0 when the request is allowed */
+    take(key) {
+      const now = Date.now()
+      sweep(now)
+      let window = windows.get(key)
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 }
+        windows.set(key, window)
+      }
+      if (window.count >= limit) {
+        return window.startedAt + windowMs - now
+      }
+      window.count += 1
+      return 0
+    },
+  }
+}
+
+function resolveClientAddress(req) {
+  return req.socket.remoteAddress || 'unknown'
+}
+
+function resolveUserId(req) {
+  const header = req.headers['x-user-id']
+  if (typeof header === 'string' && header.trim()) return header.trim()
+  return `ip:${resolveClientAddress(req)}`
+}
+
+/**
+ * Upstream URL for an allowed path, or null when it would leave the
+ * upstream's base path
+ */
+function resolveUpstreamUrl(upstream, upstreamPath, search) {
+  const base = new URL(`${upstream.baseUrl}/`)
+  const url = new URL(`${upstreamPath}${search}`, base)
+  if (url.origin !== base.origin || !url.pathname.startsWith(base.pathname)) return null
+  return url
+}
+
+export function lyzrProxyRoutes() {
+  const windowMs = Number(process.env.LYZR_PROXY_RATE_WINDOW_MS) || 60_000
+  const userLimiter = createRateLimiter(Number(process.env.LYZR_PROXY_RATE_LIMIT) || 30, windowMs)
+  const addressLimiter = createRateLimiter(Number(process.env.LYZR_PROXY_ADDRESS_RATE_LIMIT) || 120, windowMs)
+
+  return [
+    {
+      method: '*',
+      path: /^\/api\/lyzr\/(agent|rag)\/(.+)$/,
+      async handler(req, res, [upstreamName, upstreamPath]) {
+        const startedAt = Date.now()
+        const userId = resolveUserId(req)
+        const upstream = UPSTREAMS[upstreamName]
+        const search = new URL(req.url, 'http://localhost').search
+
+        const log = (status) => {
+          console.log(`[proxy] user=${userId} ${req.method} /${upstreamName}/${upstreamPath} -> ${status} (${Date.now() - startedAt}ms)`)
+        }
+
+        const allowed = !UNSAFE_PATH_PATTERN.test(upstreamPath)
+          && upstream.allowed.some(rule => rule.method === req.method && rule.path.test(upstreamPath))
+        const upstreamUrl = allowed ? resolveUpstreamUrl(upstream, upstreamPath, search) : null
+        if (!upstreamUrl) {
+          log(404)
+          throw new HttpError(404, `Proxy does not allow ${req.method} /${upstreamName}/${upstreamPath}`)
+        }
+
+        const apiKey = process.env.LYZR_API_KEY
+        if (!apiKey) {
+          log(500)
+          sendError(res, 500, 'LYZR_API_KEY not configured on the server')
+          return
+        }
+
+        const address = resolveClientAddress(req)
+        const waitMs = userLimiter.take(`${userId}@${address}`) || addressLimiter.take(address)
+        if (waitMs > 0) {
+          log(429)
+          res.setHeader('Retry-After', String(Math.ceil(waitMs / 1000)))
+          sendError(res, 429, 'Rate limit exceeded, please try again shortly')
+          return
+        }
+
+        const headers = { 'x-api-key': apiKey }
+        for (const name of FORWARDED_REQUEST_HEADERS) {
+          if (req.headers[name]) headers[name] = req.headers[name]
+        }
+
+        const body = req.method === 'GET' ? undefined : await readBody(req)
+
+        let upstreamResponse
+        try {
+          upstreamResponse = await fetch(upstreamUrl, {
+            method: req.method,
+            headers,
+            body: body && body.length > 0 ? body : undefined,
+          })
+        } catch (error) {
+          log(502)
+          console.error('[proxy] upstream request failed:', error)
+          sendError(res, 502, 'Upstream Lyzr API is unreachable')
+          return
+        }
+
+        const responseBody = Buffer.from(await upstreamResponse.arrayBuffer())
+        log(upstreamResponse.status)
+        res.writeHead(upstreamResponse.status, {
+          'Content-Type': upstreamResponse.headers.get('content-type') || 'application/octet-stream',
+          'Content-Length': responseBody.length,
+        })
+        res.end(responseBody)
+      },
+    },
+  ]
+}
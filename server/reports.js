@@ -0,0 +1,107 @@
+/**
+ * /api/reports - aggregate views over stored expenses
+ *
+ * Query parameters:
+ * - groupBy: 'category' | 'costCenter' | 'status' | 'month' (default 'category')
+ * - from / to: inclusive YYYY-MM-DD bounds on the expense date
+ *
+ * Split expenses count toward each of their split's category or cost center
+ * with the split amount. Amounts are summed in the reporting currency using
+ * the conversion stored on each expense at submission. Drafts have no
+ * conversion yet and are left out; expenses filed before currencies were
+ * supported have none either and are already in the reporting currency.
+ */
+
+import { HttpError, sendJson } from './http.js'
+
+const GROUPERS = {
+  category: expense => expense.form?.category || 'Uncategorized',
+  costCenter: () => 'Unassigned',
+  status: expense => expense.status || 'Unknown',
+  month: expense => (expense.form?.date || '').slice(0, 7) || 'Undated',
+}
+
+const SPLIT_GROUPERS = {
+  category: split => split.category || 'Uncategorized',
+  costCenter: split => split.costCenter || 'Unassigned',
+}
+
+function toAmount(value) {
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) ? amount : 0
+}
+
+function conversionRate(expense) {
+  return expense.conversion?.rate || 1
+}
+
+function expenseAmount(expense) {
+  return expense.conversion ? expense.conversion.amount : toAmount(expense.form?.amount)
+}
+
+/**
+ * [key, amount] pairs an expense contributes to a report
+ */
+function allocate(expense, groupBy) {
+  const splits = expense.form?.splits || []
+  const splitGrouper = SPLIT_GROUPERS[groupBy]
+  if (splitGrouper && splits.length > 0) {
+    return splits.map(split => [splitGrouper(split), toAmount(split.amount) * conversionRate(expense)])
+  }
+  return [[GROUPERS[groupBy](expense), expenseAmount(expense)]]
+}
+
+export function reportRoutes(store) {
+  return [
+    {
+      method: 'GET',
+      path: /^\/api\/reports$/,
+      async handler(req, res) {
+        const url = new URL(req.url, 'http://localhost')
+        const groupBy = url.searchParams.get('groupBy') || 'category'
+        const from = url.searchParams.get('from')
+        const to = url.searchParams.get('to')
+
+        const grouper = GROUPERS[groupBy]
+        if (!grouper) {
+          throw new HttpError(400, `Unsupported groupBy: ${groupBy}`)
+        }
+
+        const expenses = (await store.list('expenses')).filter(expense => {
+          if (expense.status === 'Draft') return false
+          const date = expense.form?.date || ''
+          if (from && date < from) return false
+          if (to && date > to) return false
+          return true
+        })
+
+        const groups = new Map()
+        for (const expense of expenses) {
+          const counted = new Set()
+          for (const [key, amount] of allocate(expense, groupBy)) {
+            const group = groups.get(key) || { key, count: 0, amount: 0 }
+            if (!counted.has(key)) {
+              group.count += 1
+              counted.add(key)
+            }
+            group.amount += amount
+            groups.set(key, group)
+          }
+        }
+
+        sendJson(res, 200, {
+          success: true,
+          report: {
+            group_by: groupBy,
+            from,
+            to,
+            total_count: expenses.length,
+            total_amount: expenses.reduce((sum, expense) => sum + expenseAmount(expense), 0),
+            groups: Array.from(groups.values()).sort((a, b) => b.amount - a.amount),
+          },
+          timestamp: new Date().toISOString(),
+        })
+      },
+    },
+  ]
+}
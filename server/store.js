@@ -0,0 +1,82 @@
+/**
+ * JSON File Store
+ *
+ * Minimal persistence for the dev server. Each collection is a single JSON
+ * file under the data directory. Writes are serialized and go through a
+ * temporary file so a crash never leaves a half-written collection behind.
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+export function createJsonStore(dataDir) {
+  const writeQueues = new Map()
+
+  const fileFor = (collection) => path.join(dataDir, `${collection}.json`)
+
+  async function readCollection(collection) {
+    try {
+      const raw = await fs.readFile(fileFor(collection), 'utf-8')
+      const parsed = JSON.parse(raw)
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async function writeCollection(collection, records) {
+    await fs.mkdir(dataDir, { recursive: true })
+    const file = fileFor(collection)
+    const tmpFile = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tmpFile, JSON.stringify(records, null, 2))
+    await fs.rename(tmpFile, file)
+  }
+
+  /**
+   * Run a read-modify-write against a collection, one at a time per collection
+   */
+  function update(collection, mutate) {
+    const previous = writeQueues.get(collection) || Promise.resolve()
+    const next = previous
+      .catch(() => {})
+      .then(async () => {
+        const records = await readCollection(collection)
+        const { records: updated, result } = await mutate(records)
+        await writeCollection(collection, updated)
+        return result
+      })
+    writeQueues.set(collection, next)
+    return next
+  }
+
+  return {
+    async list(collection) {
+      return readCollection(collection)
+    },
+
+    async get(collection, id) {
+      const records = await readCollection(collection)
+      return records.find(record => record.id === id) || null
+    },
+
+    async upsert(collection, record) {
+      return update(collection, records => {
+        const index = records.findIndex(existing => existing.id === record.id)
+        if (index === -1) {
+          records.push(record)
+        } else {
+          records[index] = record
+        }
+        return { records, result: record }
+      })
+    },
+
+    async remove(collection, id) {
+      return update(collection, records => {
+        const remaining = records.filter(record => record.id !== id)
+        return { records: remaining, result: remaining.length !== records.length }
+      })
+    },
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * /api/upload - receipt storage
+ *
+ * Accepts multipart/form-data with one or more `files` fields and answers in
+ * the shape src/utils/fileUpload.ts expects. Stored files are served back
+ * from /api/uploads/:assetId.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { HttpError, readFormData, sendJson } from './http.js'
+
+const COLLECTION = 'uploads'
+
+export function uploadRoutes(store, dataDir) {
+  const uploadDir = path.join(dataDir, 'uploads')
+
+  return [
+    {
+      method: 'POST',
+      path: /^\/api\/upload$/,
+      async handler(req, res) {
+        const formData = await readFormData(req)
+        const files = formData.getAll('files').filter(entry => typeof entry !== 'string')
+
+        if (files.length === 0) {
+          throw new HttpError(400, 'No files provided')
+        }
+
+        await fs.mkdir(uploadDir, { recursive: true })
+
+        const assets = []
+        for (const file of files) {
+          const assetId = randomUUID()
+          try {
+            const bytes = Buffer.from(await file.arrayBuffer())
+            await fs.writeFile(path.join(uploadDir, assetId), bytes)
+            const asset = {
+              success: true,
+              asset_id: assetId,
+              file_name: file.name,
+              type: file.type.split('/')[0] || 'file',
+              url: `/api/uploads/${assetId}`,
+              file_size: bytes.length,
+              mime_type: file.type || 'application/octet-stream',
+              created_at: new Date().toISOString(),
+              error: null,
+            }
+            await store.upsert(COLLECTION, { id: assetId, ...asset })
+            assets.push(asset)
+          } catch (error) {
+            assets.push({
+              success: false,
+              asset_id: '',
+              file_name: file.name,
+              type: '',
+              url: '',
+              file_size: 0,
+              mime_type: file.type,
+              created_at: new Date().toISOString(),
+              error: error.message,
+            })
+          }
+        }
+
+        const assetIds = assets.filter(asset => asset.success).map(asset => asset.asset_id)
+
+        sendJson(res, 200, {
+          success: assetIds.length > 0,
+          asset_ids: assetIds,
+          assets,
+          total_files: files.length,
+          successful_uploads: assetIds.length,
+          failed_uploads: files.length - assetIds.length,
+          message: `Successfully uploaded ${assetIds.length} file(s)`,
+          timestamp: new Date().toISOString(),
+        })
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/api\/uploads\/([^/]+)$/,
+      async handler(req, res, [assetId]) {
+        const asset = await store.get(COLLECTION, assetId)
+        if (!asset) throw new HttpError(404, `Upload ${assetId} not found`)
+
+        const bytes = await fs.readFile(path.join(uploadDir, asset.id))
+        res.writeHead(200, {
+          'Content-Type': asset.mime_type,
+          'Content-Length': bytes.length,
+          'Content-Disposition': `inline; filename="${encodeURIComponent(asset.file_name)}"`,
+        })
+        res.end(bytes)
+      },
+    },
+  ]
+}
@@ -1,7 +1,10 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
+import { PolicySourcesProvider } from '@/components/PolicySourceLinks'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
 import Home from './pages/Home'
+import Approvals from './pages/Approvals'
+import Admin from './pages/Admin'
 import NotFound from './pages/NotFound'
 
 export default function App() {
@@ -9,10 +12,14 @@ export default function App() {
     <BrowserRouter>
       <ErrorBoundary>
         <AgentInterceptorProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <PolicySourcesProvider>
+            <Routes>
+              <Route path="/" element={<Home />} />
+              <Route path="/approvals" element={<Approvals />} />
+              <Route path="/admin" element={<Admin />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </PolicySourcesProvider>
         </AgentInterceptorProvider>
         <GlobalErrorModal />
       </ErrorBoundary>
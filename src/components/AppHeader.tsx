@@ -0,0 +1,59 @@
+import { NavLink } from 'react-router-dom'
+import { Receipt } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { ROLE_LABELS, isApprover, isFinanceAdmin, useCurrentUser } from '@/utils/currentUser'
+
+const navLinkClass = ({ isActive }: { isActive: boolean }) => cn(
+  'text-sm font-medium transition-colors hover:text-primary',
+  isActive ? 'text-primary' : 'text-muted-foreground'
+)
+
+export function AppHeader() {
+  const { user, users, setUser } = useCurrentUser()
+
+  return (
+    <header className="border-b bg-card">
+      <div className="container mx-auto px-6 py-4">
+        <div className="flex items-center justify-between gap-6">
+          <div className="flex items-center gap-3">
+            <Receipt className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold">ExpenseFlow</h1>
+              <p className="text-sm text-muted-foreground">Smart Expense Management System</p>
+            </div>
+          </div>
+
+          <nav className="flex items-center gap-6">
+            <NavLink to="/" end className={navLinkClass}>Expenses</NavLink>
+            {isApprover(user) && (
+              <NavLink to="/approvals" className={navLinkClass}>Approvals</NavLink>
+            )}
+            {isFinanceAdmin(user) && (
+              <NavLink to="/admin" className={navLinkClass}>Admin</NavLink>
+            )}
+          </nav>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="current-user" className="text-sm text-muted-foreground whitespace-nowrap">
+              Acting as
+            </Label>
+            <Select value={user.id} onValueChange={setUser}>
+              <SelectTrigger id="current-user" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name} ({ROLE_LABELS[candidate.role]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
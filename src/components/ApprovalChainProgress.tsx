@@ -0,0 +1,57 @@
+import { CheckCircle, Circle, XCircle, Undo2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ROLE_LABELS } from '@/utils/currentUser'
+import type { ApprovalChain, ApprovalStepStatus } from '@/types'
+
+interface ApprovalChainProgressProps {
+  chain?: ApprovalChain
+  /** Show who decided each step and their comment */
+  detailed?: boolean
+}
+
+const STEP_ICONS: Record<ApprovalStepStatus, typeof Circle> = {
+  pending: Circle,
+  approved: CheckCircle,
+  rejected: XCircle,
+  returned: Undo2,
+}
+
+const STEP_COLORS: Record<ApprovalStepStatus, string> = {
+  pending: 'text-muted-foreground',
+  approved: 'text-green-600',
+  rejected: 'text-red-600',
+  returned: 'text-amber-600',
+}
+
+export function ApprovalChainProgress({ chain, detailed = false }: ApprovalChainProgressProps) {
+  if (!chain) {
+    return <span className="text-xs text-muted-foreground">Single approver</span>
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{chain.ruleName}</p>
+      <ol className={cn('flex gap-2', detailed ? 'flex-col' : 'flex-wrap items-center')}>
+        {chain.steps.map((step, index) => {
+          const Icon = STEP_ICONS[step.status]
+          const isCurrent = index === chain.currentStep && step.status === 'pending'
+          return (
+            <li key={index} className="text-xs">
+              <span className={cn('inline-flex items-center gap-1', STEP_COLORS[step.status], isCurrent && 'font-semibold text-foreground')}>
+                <Icon className="h-3 w-3" />
+                {ROLE_LABELS[step.role]}
+              </span>
+              {detailed && step.decidedBy && (
+                <span className="text-muted-foreground">
+                  {' '}by {step.decidedBy.name}
+                  {step.decidedAt && ` on ${new Date(step.decidedAt).toLocaleDateString()}`}
+                  {step.comment && `: "${step.comment}"`}
+                </span>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowUp, ArrowDown, Plus, Trash2, Save, RotateCcw, CheckCircle, XCircle } from 'lucide-react'
+import { useApprovalChainRules, validateApprovalChainRules } from '@/utils/approvalChains'
+import { APPROVER_ROLES, DEPARTMENTS, ROLE_LABELS } from '@/utils/currentUser'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+import { generateId } from '@/utils'
+import type { ApprovalChainRule, UserRole } from '@/types'
+
+function parseBound(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function toggleValue(values: string[], value: string, checked: boolean): string[] {
+  return checked ? [...values, value] : values.filter(existing => existing !== value)
+}
+
+export function ApprovalChainSettings() {
+  const { rules, saveRules, resetRules } = useApprovalChainRules()
+  const [draft, setDraft] = useState<ApprovalChainRule[]>(rules)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    setDraft(rules)
+  }, [rules])
+
+  const problems = validateApprovalChainRules(draft)
+
+  const updateRule = (index: number, changes: Partial<ApprovalChainRule>) => {
+    setSaved(false)
+    setDraft(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+  }
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    setSaved(false)
+    setDraft(prev => {
+      const next = [...prev]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + offset, 0, rule)
+      return next
+    })
+  }
+
+  const removeRule = (index: number) => {
+    setSaved(false)
+    setDraft(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const addRule = () => {
+    setSaved(false)
+    setDraft(prev => [
+      { id: generateId(), name: 'New rule', categories: [], departments: [], steps: ['manager'] },
+      ...prev,
+    ])
+  }
+
+  const handleSave = () => {
+    const result = saveRules(draft)
+    if (result.success) {
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || 'Failed to save rules')
+    }
+  }
+
+  const handleReset = () => {
+    resetRules()
+    setError(null)
+    setSaved(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Rules are checked top to bottom; the first match decides the approval chain.
+          Chains are fixed when an expense is submitted.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add rule
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave} disabled={problems.length > 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {(error || problems.length > 0) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error || problems.join('; ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>Approval chains saved</AlertDescription>
+        </Alert>
+      )}
+
+      {draft.map((rule, index) => (
+        <Card key={rule.id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-base flex-1">
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule(index, { name: e.target.value })}
+                  aria-label="Rule name"
+                  className="max-w-sm"
+                />
+              </CardTitle>
+              <div className="flex gap-1">
+                <Button size="icon" variant="ghost" onClick={() => moveRule(index, -1)} disabled={index === 0} aria-label="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => moveRule(index, 1)} disabled={index === draft.length - 1} aria-label="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => removeRule(index)} disabled={draft.length === 1} aria-label="Delete rule">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor={`${rule.id}-min`}>Minimum amount ({REPORTING_CURRENCY}, inclusive)</Label>
+                <Input
+                  id={`${rule.id}-min`}
+                  type="number"
+                  step="0.01"
+                  value={rule.minAmount ?? ''}
+                  onChange={(e) => updateRule(index, { minAmount: parseBound(e.target.value) })}
+                  placeholder="No minimum"
+                />
+              </div>
+              <div>
+                <Label htmlFor={`${rule.id}-max`}>Maximum amount ({REPORTING_CURRENCY}, exclusive)</Label>
+                <Input
+                  id={`${rule.id}-max`}
+                  type="number"
+                  step="0.01"
+                  value={rule.maxAmount ?? ''}
+                  onChange={(e) => updateRule(index, { maxAmount: parseBound(e.target.value) })}
+                  placeholder="No maximum"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Categories (none selected = any)</Label>
+                <div className="mt-1.5 grid grid-cols-2 gap-1.5">
+                  {EXPENSE_CATEGORIES.map(category => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rule.categories.includes(category)}
+                        onCheckedChange={(checked) => updateRule(index, {
+                          categories: toggleValue(rule.categories, category, checked === true)
+                        })}
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Departments (none selected = any)</Label>
+                <div className="mt-1.5 grid grid-cols-2 gap-1.5">
+                  {DEPARTMENTS.map(department => (
+                    <label key={department} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rule.departments.includes(department)}
+                        onCheckedChange={(checked) => updateRule(index, {
+                          departments: toggleValue(rule.departments, department, checked === true)
+                        })}
+                      />
+                      {department}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label>Approval steps (in order)</Label>
+              <div className="mt-1.5 flex flex-wrap items-center gap-2">
+                {rule.steps.map((role, stepIndex) => (
+                  <div key={stepIndex} className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground">{stepIndex + 1}.</span>
+                    <Select
+                      value={role}
+                      onValueChange={(value) => updateRule(index, {
+                        steps: rule.steps.map((existing, i) => i === stepIndex ? value as UserRole : existing)
+                      })}
+                    >
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {APPROVER_ROLES.map(approverRole => (
+                          <SelectItem key={approverRole} value={approverRole}>{ROLE_LABELS[approverRole]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => updateRule(index, { steps: rule.steps.filter((_, i) => i !== stepIndex) })}
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateRule(index, { steps: [...rule.steps, 'manager'] })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add step
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
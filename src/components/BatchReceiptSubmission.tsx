@@ -0,0 +1,480 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Upload, Loader2, Send, Trash2, CheckCircle, AlertTriangle, Sparkles, RotateCcw } from 'lucide-react'
+import { uploadFiles } from '@/utils/aiAgent'
+import { validateExpenseSubmission } from '@/utils/expenseAgent'
+import { getExpenseRepository } from '@/utils/expenseRepository'
+import { discardDraft, saveDraftExpense, submitSavedDraft } from '@/utils/expenseDrafts'
+import { extractReceiptDetails, formFieldsFromDetails, type ExtractableField } from '@/utils/receiptExtraction'
+import { findDuplicateExpenses, hashReceiptFile } from '@/utils/duplicateDetection'
+import { getCurrentUser, toActor } from '@/utils/currentUser'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { getSubmissionProblems } from '@/utils/expenseSchema'
+import { CURRENCIES, REPORTING_CURRENCY, amountStep } from '@/utils/currency'
+import { generateId } from '@/utils'
+import { cn } from '@/lib/utils'
+import type { ExpenseFormData, StoredExpense } from '@/types'
+
+type BatchPhase = 'uploading' | 'extracting' | 'ready' | 'submitting' | 'submitted' | 'failed'
+
+interface BatchRow {
+  key: string
+  file: File
+  draftId?: string
+  assetIds: string[]
+  receiptHash?: string
+  form: ExpenseFormData
+  /** Fields the user has typed into; a scan finishing later leaves them alone */
+  edited: (keyof ExpenseFormData)[]
+  phase: BatchPhase
+  note?: string
+  compliant?: boolean
+}
+
+const EMPTY_FORM: ExpenseFormData = {
+  vendor: '',
+  date: '',
+  amount: '',
+  currency: REPORTING_CURRENCY,
+  category: '',
+  description: ''
+}
+
+// Scanned details fill the fields the user hasn't edited yet
+function mergeScan(row: BatchRow, scanned: Partial<Pick<ExpenseFormData, ExtractableField>>): ExpenseFormData {
+  const form = { ...row.form }
+  for (const [field, value] of Object.entries(scanned) as [ExtractableField, string][]) {
+    if (!row.edited.includes(field)) {
+      form[field] = value
+    }
+  }
+  return form
+}
+
+// Every batch row has its receipt attached
+function rowProblems(form: ExpenseFormData): string[] {
+  return getSubmissionProblems(form, { hasReceipt: true }).map(problem => problem.message)
+}
+
+const PHASE_LABELS: Record<BatchPhase, string> = {
+  uploading: 'Uploading',
+  extracting: 'Scanning',
+  ready: 'Ready',
+  submitting: 'Submitting',
+  submitted: 'Submitted',
+  failed: 'Failed',
+}
+
+function PhaseBadge({ row }: { row: BatchRow }) {
+  if (row.phase === 'uploading' || row.phase === 'extracting' || row.phase === 'submitting') {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {PHASE_LABELS[row.phase]}
+      </Badge>
+    )
+  }
+  if (row.phase === 'submitted') {
+    return row.compliant
+      ? <Badge variant="default" className="bg-green-600">Submitted</Badge>
+      : <Badge variant="destructive">Submitted with issues</Badge>
+  }
+  if (row.phase === 'failed') {
+    return <Badge variant="destructive">Failed</Badge>
+  }
+  return <Badge variant="outline">Ready</Badge>
+}
+
+// Drop many receipts at once: each becomes a Draft expense, is scanned in
+// parallel, and can be corrected in the grid before submitting together
+export function BatchReceiptSubmission() {
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [dragging, setDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Receipts are processed asynchronously; read rows as they are when a step
+  // finishes, not as they were when it started
+  const latestRows = useRef(rows)
+  latestRows.current = rows
+
+  const updateRow = (key: string, changes: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+
+  const draftInput = (row: BatchRow) => ({
+    form: row.form,
+    receiptAssetIds: row.assetIds,
+    receiptFileName: row.file.name,
+    receiptHash: row.receiptHash
+  })
+
+  const persistDraft = async (row: BatchRow) => {
+    if (!row.draftId) return
+    const saved = await saveDraftExpense(row.draftId, draftInput(row), getCurrentUser())
+    if (!saved.success) {
+      updateRow(row.key, { note: saved.error || 'Draft could not be saved' })
+    }
+  }
+
+  const processReceipt = async (row: BatchRow) => {
+    const [upload, receiptHash] = await Promise.all([
+      uploadFiles(row.file),
+      hashReceiptFile(row.file).catch(() => undefined)
+    ])
+    if (!upload.success || upload.asset_ids.length === 0) {
+      updateRow(row.key, { phase: 'failed', note: upload.error || 'Upload failed' })
+      return
+    }
+
+    const saved = await saveDraftExpense(row.draftId ?? null, draftInput({ ...row, assetIds: upload.asset_ids, receiptHash }), getCurrentUser())
+    if (!saved.success) {
+      updateRow(row.key, { phase: 'failed', note: saved.error || 'Draft could not be saved' })
+      return
+    }
+    const draft = saved.data!
+    await getExpenseRepository().saveReceipt(draft.id, row.file)
+
+    updateRow(row.key, { draftId: draft.id, assetIds: upload.asset_ids, receiptHash, phase: 'extracting' })
+
+    const extraction = await extractReceiptDetails(upload.asset_ids)
+    const details = extraction.success ? formFieldsFromDetails(extraction.data!) : {}
+    const note = extraction.success ? undefined : 'Could not read this receipt. Enter the details manually.'
+
+    setRows(prev => prev.map(r => r.key === row.key
+      ? { ...r, form: mergeScan(r, details), phase: 'ready', note }
+      : r
+    ))
+    const current = latestRows.current.find(r => r.key === row.key)
+    if (current) {
+      await persistDraft({ ...current, draftId: draft.id, assetIds: upload.asset_ids, receiptHash, form: mergeScan(current, details) })
+    }
+  }
+
+  const retryRow = (row: BatchRow) => {
+    const reset = { ...row, phase: 'uploading' as const, note: undefined }
+    updateRow(row.key, { phase: 'uploading', note: undefined })
+    processReceipt(reset)
+  }
+
+  const addFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    if (files.length === 0) return
+
+    setError(null)
+    const added: BatchRow[] = files.map(file => ({
+      key: generateId(),
+      file,
+      assetIds: [],
+      form: EMPTY_FORM,
+      edited: [],
+      phase: 'uploading'
+    }))
+
+    setRows(prev => [...prev, ...added])
+    Promise.all(added.map(processReceipt))
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    addFiles(e.dataTransfer.files)
+  }
+
+  const updateField = (key: string, field: keyof ExpenseFormData, value: string) => {
+    setRows(prev => prev.map(row => row.key === key
+      ? {
+          ...row,
+          form: { ...row.form, [field]: value },
+          edited: row.edited.includes(field) ? row.edited : [...row.edited, field]
+        }
+      : row
+    ))
+  }
+
+  const removeRow = async (row: BatchRow) => {
+    if (row.draftId) {
+      const removed = await discardDraft(row.draftId)
+      if (!removed.success) {
+        setError(removed.error || 'Draft could not be removed')
+        return
+      }
+    }
+    setRows(prev => prev.filter(r => r.key !== row.key))
+  }
+
+  // Likely duplicates are held back: confirming one needs a written reason,
+  // which the single-expense form asks for when the draft is resumed.
+  // Returns the filed expense so later rows of the batch are checked against it
+  const submitRow = async (row: BatchRow, filed: StoredExpense[]): Promise<StoredExpense | undefined> => {
+    const [duplicate] = findDuplicateExpenses({ id: row.draftId, form: row.form, receiptHash: row.receiptHash }, filed)
+    if (duplicate) {
+      updateRow(row.key, {
+        note: `Possible duplicate of ${duplicate.expense.form.vendor} (${duplicate.expense.form.date}). Resume it from My drafts to submit with a reason.`
+      })
+      return
+    }
+
+    updateRow(row.key, { phase: 'submitting', note: undefined })
+
+    const validation = await validateExpenseSubmission(row.form, row.assetIds)
+    if (!validation.success) {
+      updateRow(row.key, { phase: 'ready', note: validation.error })
+      return
+    }
+
+    const result = validation.response!.result
+    const submitted = await submitSavedDraft(row.draftId!, {
+      form: row.form,
+      receiptAssetIds: row.assetIds,
+      receiptFileName: row.file.name,
+      receiptHash: row.receiptHash,
+      result,
+      payloadVersion: validation.payloadVersion
+    }, toActor(getCurrentUser()))
+
+    if (!submitted.success) {
+      updateRow(row.key, { phase: 'ready', note: submitted.error })
+      return
+    }
+    updateRow(row.key, { phase: 'submitted', compliant: result.policy_validation.is_compliant })
+    return submitted.expense
+  }
+
+  const readyRows = rows.filter(row => row.phase === 'ready')
+  const submittable = readyRows.filter(row => rowProblems(row.form).length === 0)
+  const busy = rows.some(row => row.phase === 'uploading' || row.phase === 'extracting' || row.phase === 'submitting')
+  const submittedCount = rows.filter(row => row.phase === 'submitted').length
+
+  const handleSubmitAll = async () => {
+    setError(null)
+    const listed = await getExpenseRepository().list()
+    if (!listed.success) {
+      setError(listed.error || 'Could not check for duplicate expenses')
+      return
+    }
+    // One at a time, so two receipts of the same batch can't both be filed
+    const filed = [...listed.data!]
+    for (const row of submittable) {
+      const expense = await submitRow(row, filed)
+      if (expense) filed.push(expense)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'rounded-md border-2 border-dashed p-6 text-center transition-colors',
+          dragging ? 'border-primary bg-primary/5' : 'border-muted'
+        )}
+      >
+        <Upload className="h-8 w-8 mx-auto text-muted-foreground" />
+        <p className="mt-2 text-sm font-medium">Drop receipts here</p>
+        <p className="text-xs text-muted-foreground">Each receipt becomes its own draft expense</p>
+        <Label htmlFor="batch-receipts" className="sr-only">Choose receipts</Label>
+        <Input
+          id="batch-receipts"
+          type="file"
+          accept="image/*,.pdf"
+          multiple
+          onChange={(e) => {
+            addFiles(e.target.files)
+            e.target.value = ''
+          }}
+          className="mt-4 max-w-sm mx-auto cursor-pointer"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="w-44">Amount</TableHead>
+                  <TableHead className="w-40">Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => {
+                  // Details can be typed in while the scan is still running
+                  const editable = row.phase === 'ready' || row.phase === 'extracting'
+                  const problems = row.phase === 'ready' ? rowProblems(row.form) : []
+                  return (
+                    <TableRow key={row.key} className="align-top">
+                      <TableCell className="max-w-[10rem]">
+                        <p className="truncate font-medium" title={row.file.name}>{row.file.name}</p>
+                        {row.note && (
+                          <p className="text-xs text-amber-700 mt-1">{row.note}</p>
+                        )}
+                        {!row.note && problems.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">{problems.join('. ')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.form.vendor}
+                          onChange={(e) => updateField(row.key, 'vendor', e.target.value)}
+                          onBlur={() => persistDraft(row)}
+                          disabled={!editable}
+                          aria-label={`Vendor for ${row.file.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={row.form.date}
+                          onChange={(e) => updateField(row.key, 'date', e.target.value)}
+                          onBlur={() => persistDraft(row)}
+                          disabled={!editable}
+                          aria-label={`Date for ${row.file.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Input
+                            type="number"
+                            step={amountStep(row.form.currency)}
+                            value={row.form.amount}
+                            onChange={(e) => updateField(row.key, 'amount', e.target.value)}
+                            onBlur={() => persistDraft(row)}
+                            disabled={!editable}
+                            aria-label={`Amount for ${row.file.name}`}
+                          />
+                          <Select
+                            value={row.form.currency}
+                            onValueChange={(value) => {
+                              updateField(row.key, 'currency', value)
+                              persistDraft({ ...row, form: { ...row.form, currency: value } })
+                            }}
+                            disabled={!editable}
+                          >
+                            <SelectTrigger className="w-20" aria-label={`Currency for ${row.file.name}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CURRENCIES.map(currency => (
+                                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={row.form.category}
+                          onValueChange={(value) => {
+                            updateField(row.key, 'category', value)
+                            persistDraft({ ...row, form: { ...row.form, category: value } })
+                          }}
+                          disabled={!editable}
+                        >
+                          <SelectTrigger aria-label={`Category for ${row.file.name}`}>
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EXPENSE_CATEGORIES.map(cat => (
+                              <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.form.description}
+                          onChange={(e) => updateField(row.key, 'description', e.target.value)}
+                          onBlur={() => persistDraft(row)}
+                          disabled={!editable}
+                          placeholder="Business purpose"
+                          aria-label={`Description for ${row.file.name}`}
+                        />
+                      </TableCell>
+                      <TableCell><PhaseBadge row={row} /></TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {row.phase === 'failed' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => retryRow(row)}
+                              aria-label={`Retry ${row.file.name}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(row.phase === 'ready' || row.phase === 'failed') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeRow(row)}
+                              aria-label={`Remove ${row.file.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Sparkles className="h-3 w-3" />
+              {rows.length} receipt{rows.length === 1 ? '' : 's'} · {submittable.length} ready to submit
+              {submittedCount > 0 && (
+                <span className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="h-3 w-3" />
+                  {submittedCount} submitted
+                </span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              {submittedCount > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => setRows(prev => prev.filter(row => row.phase !== 'submitted'))}
+                  disabled={busy}
+                >
+                  Clear submitted
+                </Button>
+              )}
+              <Button onClick={handleSubmitAll} disabled={busy || submittable.length === 0}>
+                <Send className="h-4 w-4 mr-2" />
+                Submit {submittable.length} expense{submittable.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
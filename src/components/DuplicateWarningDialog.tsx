@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { AlertTriangle } from 'lucide-react'
+import { ExpenseStatusBadge } from '@/components/ExpenseStatusBadge'
+import { getSubmitter } from '@/utils/approvals'
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from '@/utils/duplicateDetection'
+import { formatAmount } from '@/utils/currency'
+
+interface DuplicateWarningDialogProps {
+  matches: DuplicateMatch[]
+  reason: string
+  onReasonChange: (reason: string) => void
+  onCancel: () => void
+  onConfirm: () => void
+}
+
+export function DuplicateWarningDialog({ matches, reason, onReasonChange, onCancel, onConfirm }: DuplicateWarningDialogProps) {
+  return (
+    <Dialog open={matches.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            Possible duplicate expense
+          </DialogTitle>
+          <DialogDescription>
+            {matches.length === 1
+              ? 'This looks like an expense that has already been filed.'
+              : `This looks like ${matches.length} expenses that have already been filed.`
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-3 max-h-64 overflow-y-auto">
+          {matches.map(({ expense, reasons }) => (
+            <li key={expense.id} className="rounded-md border p-3 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{expense.form.vendor}</span>
+                <ExpenseStatusBadge status={expense.status} />
+              </div>
+              <p className="text-muted-foreground">
+                {expense.form.date} · {formatAmount(expense.form.amount, expense.form.currency)} · {expense.form.category}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Filed by {getSubmitter(expense)?.name || 'Unknown'}
+                {expense.receiptFileName && ` · ${expense.receiptFileName}`}
+              </p>
+              <div className="flex flex-wrap gap-1 pt-1">
+                {reasons.map(matchReason => (
+                  <Badge key={matchReason} variant="outline" className="border-amber-500 text-amber-700">
+                    {DUPLICATE_REASON_LABELS[matchReason]}
+                  </Badge>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div>
+          <Label htmlFor="duplicate-reason">Reason for submitting anyway</Label>
+          <Textarea
+            id="duplicate-reason"
+            value={reason}
+            onChange={(e) => onReasonChange(e.target.value)}
+            placeholder="e.g. Two separate dinners at the same restaurant"
+            rows={3}
+            className="mt-1.5"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!reason.trim()}>
+            Submit anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Plus, Trash2, Save, RotateCcw, Upload, CheckCircle, XCircle } from 'lucide-react'
+import { parseExchangeRateImport, useExchangeRates, validateExchangeRates } from '@/utils/exchangeRates'
+import { REPORTING_CURRENCY, formatMoney } from '@/utils/currency'
+import type { ExchangeRateTable } from '@/types'
+
+interface RateRow {
+  currency: string
+  rate: string
+}
+
+function toRows(table: ExchangeRateTable): RateRow[] {
+  return Object.entries(table.rates)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, rate]) => ({ currency, rate: String(rate) }))
+}
+
+function toTable(asOf: string, rows: RateRow[], source?: string): ExchangeRateTable {
+  const rates: Record<string, number> = {}
+  rows.forEach(row => {
+    rates[row.currency.trim().toUpperCase()] = parseFloat(row.rate)
+  })
+  return { asOf, rates, source }
+}
+
+export function ExchangeRateSettings() {
+  const { table, saveRates, resetRates } = useExchangeRates()
+  const [asOf, setAsOf] = useState(table.asOf)
+  const [source, setSource] = useState(table.source)
+  const [rows, setRows] = useState<RateRow[]>(toRows(table))
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setAsOf(table.asOf)
+    setSource(table.source)
+    setRows(toRows(table))
+  }, [table])
+
+  const draft = toTable(asOf, rows, source)
+  const codes = rows.map(row => row.currency.trim().toUpperCase())
+  const repeated = codes.filter((code, i) => code && codes.indexOf(code) !== i)
+  const problems = [
+    ...validateExchangeRates(draft),
+    ...Array.from(new Set(repeated)).map(code => `${code} is listed more than once`),
+  ]
+
+  const updateRow = (index: number, changes: Partial<RateRow>) => {
+    setSaved(false)
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row))
+  }
+
+  const removeRow = (index: number) => {
+    setSaved(false)
+    setRows(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const addRow = () => {
+    setSaved(false)
+    setRows(prev => [...prev, { currency: '', rate: '' }])
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const parsed = parseExchangeRateImport(await file.text(), file.name)
+    if (!parsed.success) {
+      setError(`Could not import ${file.name}: ${parsed.error}`)
+      return
+    }
+    setError(null)
+    setSaved(false)
+    setAsOf(parsed.data!.asOf)
+    setSource(parsed.data!.source)
+    setRows(toRows(parsed.data!))
+  }
+
+  const handleSave = () => {
+    const result = saveRates(draft)
+    if (result.success) {
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || 'Failed to save rates')
+    }
+  }
+
+  const handleReset = () => {
+    resetRates()
+    setError(null)
+    setSaved(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Rates are {REPORTING_CURRENCY} per unit of each currency. Expenses are converted when
+          submitted and keep that rate. Import a CSV (<code>currency,rate</code>) or JSON file.
+        </p>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave} disabled={problems.length > 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {(error || problems.length > 0) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error || problems.join('; ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>Exchange rates saved</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-end gap-4">
+        <div>
+          <Label htmlFor="rates-as-of">Rates as of</Label>
+          <Input
+            id="rates-as-of"
+            type="date"
+            value={asOf}
+            onChange={(e) => {
+              setSaved(false)
+              setAsOf(e.target.value)
+            }}
+            className="mt-1.5 w-44"
+          />
+        </div>
+        {source && <p className="text-sm text-muted-foreground pb-2">Source: {source}</p>}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Currency</TableHead>
+            <TableHead>Rate ({REPORTING_CURRENCY} per unit)</TableHead>
+            <TableHead className="text-right">100 units</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, index) => {
+            const rate = parseFloat(row.rate)
+            return (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    value={row.currency}
+                    onChange={(e) => updateRow(index, { currency: e.target.value.toUpperCase() })}
+                    maxLength={3}
+                    placeholder="EUR"
+                    aria-label="Currency code"
+                    className="w-24"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={row.rate}
+                    onChange={(e) => updateRow(index, { rate: e.target.value })}
+                    aria-label={`Rate for ${row.currency || 'currency'}`}
+                    className="w-36"
+                  />
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {Number.isFinite(rate) && rate > 0 ? formatMoney(rate * 100) : '—'}
+                </TableCell>
+                <TableCell>
+                  <Button size="icon" variant="ghost" onClick={() => removeRow(index)} aria-label="Delete rate">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      <Button variant="outline" onClick={addRow}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add currency
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,568 @@
+import { useState, useEffect } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Separator } from '@/components/ui/separator'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, FileText, ExternalLink, Pencil, AlertTriangle, Banknote } from 'lucide-react'
+import { ExpenseStatusBadge } from '@/components/ExpenseStatusBadge'
+import { PolicyValidationSummary } from '@/components/PolicyValidationSummary'
+import { PolicySourceLinks } from '@/components/PolicySourceLinks'
+import { ApprovalChainProgress } from '@/components/ApprovalChainProgress'
+import { getExpenseRepository } from '@/utils/expenseRepository'
+import { getCreator, getExpenseTimeline, getSubmitter, markReimbursed } from '@/utils/approvals'
+import { canResubmit } from '@/utils/expenseLifecycle'
+import { diffExpenseVersions } from '@/utils/expenseVersions'
+import { combinedPolicyValidation, costCenterLabel, isSplit } from '@/utils/expenseSplits'
+import { REPORTING_CURRENCY, formatAmount, formatMoney } from '@/utils/currency'
+import { getReportingAmount } from '@/utils/exchangeRates'
+import { MEAL_LABELS } from '@/utils/perDiem'
+import { validateStoredExpense } from '@/utils/expenseSchema'
+import { policyDisagreements } from '@/utils/policyRules'
+import { getResultSources } from '@/utils/policySources'
+import { isFinanceAdmin, useCurrentUser } from '@/utils/currentUser'
+import type { StoredExpense } from '@/types'
+
+interface ExpenseDetailSheetProps {
+  expense: StoredExpense | null
+  onOpenChange: (open: boolean) => void
+  /** Called when the owner chooses to edit a returned or rejected expense, or resume a draft */
+  onEdit?: (expense: StoredExpense) => void
+}
+
+function DetailField({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <span className="text-muted-foreground">{label}:</span>
+      <p className="font-medium break-words">{value || '—'}</p>
+    </div>
+  )
+}
+
+function ReceiptPreview({ expense }: { expense: StoredExpense }) {
+  const [file, setFile] = useState<File | null>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    setLoading(true)
+    setFile(null)
+    setUrl(null)
+
+    getExpenseRepository().getReceipt(expense.id).then(result => {
+      if (cancelled) return
+      if (result.success && result.data) {
+        objectUrl = URL.createObjectURL(result.data)
+        setFile(result.data)
+        setUrl(objectUrl)
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [expense.id])
+
+  if (loading) {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading receipt...
+      </p>
+    )
+  }
+
+  if (!file || !url) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {expense.receiptAssetIds.length > 0
+          ? `Receipt ${expense.receiptFileName || ''} was attached, but no local copy is stored.`
+          : 'No receipt attached.'
+        }
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {file.type.startsWith('image/') ? (
+        <img src={url} alt={file.name} className="max-h-96 w-full object-contain rounded-md border" />
+      ) : file.type === 'application/pdf' ? (
+        <iframe src={url} title={file.name} className="h-96 w-full rounded-md border" />
+      ) : (
+        <p className="text-sm flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          {file.name}
+        </p>
+      )}
+      <a
+        href={url}
+        target="_blank"
+        rel="noreferrer"
+        className="text-sm text-primary inline-flex items-center gap-1 hover:underline"
+      >
+        <ExternalLink className="h-3 w-3" />
+        Open {file.name}
+      </a>
+    </div>
+  )
+}
+
+function ReimbursementAction({ expense }: { expense: StoredExpense }) {
+  const { user } = useCurrentUser()
+  const [reference, setReference] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleReimburse = async () => {
+    setSaving(true)
+    setError(null)
+    const result = await markReimbursed(expense.id, user, reference)
+    if (result.success) {
+      setReference('')
+    } else {
+      setError(result.error || 'Failed to mark the expense reimbursed')
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="reimbursement-reference">Payment reference (optional)</Label>
+      <div className="flex gap-2">
+        <Input
+          id="reimbursement-reference"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="e.g., Payroll run 2024-06"
+          disabled={saving}
+        />
+        <Button onClick={handleReimburse} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Banknote className="h-4 w-4 mr-2" />}
+          Mark reimbursed
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+function VersionHistory({ expense }: { expense: StoredExpense }) {
+  const latest = expense.versions.length
+  const [compare, setCompare] = useState({ before: Math.max(latest - 1, 1), after: latest })
+
+  useEffect(() => {
+    setCompare({ before: Math.max(latest - 1, 1), after: latest })
+  }, [expense.id, latest])
+
+  const before = expense.versions.find(v => v.version === compare.before)
+  const after = expense.versions.find(v => v.version === compare.after)
+  const changes = before && after ? diffExpenseVersions(before, after) : []
+
+  if (latest === 0) {
+    return <p className="text-sm text-muted-foreground">Not submitted yet.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-1 text-sm">
+        {expense.versions.map(version => (
+          <li key={version.version} className="flex justify-between gap-2">
+            <span className="font-medium">Version {version.version}</span>
+            <span className="text-muted-foreground">
+              {version.submittedBy.name} · {new Date(version.submittedAt).toLocaleString()} · payload v{version.payloadVersion ?? 1}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {latest > 1 && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {(['before', 'after'] as const).map(side => (
+              <div key={side}>
+                <Label className="text-xs">{side === 'before' ? 'Compare' : 'With'}</Label>
+                <Select
+                  value={String(compare[side])}
+                  onValueChange={(value) => setCompare(prev => ({ ...prev, [side]: Number(value) }))}
+                >
+                  <SelectTrigger className="mt-1 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expense.versions.map(version => (
+                      <SelectItem key={version.version} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Version {compare.before}</TableHead>
+                    <TableHead>Version {compare.after}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.field} className="align-top">
+                      <TableCell className="font-medium">{change.label}</TableCell>
+                      <TableCell className="text-red-700 line-through break-words">{change.before || '—'}</TableCell>
+                      <TableCell className="text-green-700 break-words">{change.after || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export function ExpenseDetailSheet({ expense, onOpenChange, onEdit }: ExpenseDetailSheetProps) {
+  const { user } = useCurrentUser()
+  const isOwnDraft = expense?.status === 'Draft' && getCreator(expense)?.id === user.id
+  const canEdit = expense !== null && onEdit !== undefined
+    && (isOwnDraft || (canResubmit(expense) && getSubmitter(expense)?.id === user.id))
+  // Expenses filed before a rule existed, or imported, can break the
+  // submission rules as they stood on the submission day
+  const ruleProblems = expense && expense.status !== 'Draft' ? validateStoredExpense(expense) : []
+
+  return (
+    <Sheet open={expense !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {expense && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-3">
+                {expense.form.vendor}
+                <ExpenseStatusBadge status={expense.status} />
+              </SheetTitle>
+              <SheetDescription>
+                {expense.status === 'Draft'
+                  ? `Draft created by ${getCreator(expense)?.name || 'Unknown'} on ${new Date(expense.createdAt).toLocaleString()}`
+                  : `Submitted by ${getSubmitter(expense)?.name || 'Unknown'} on ${new Date(expense.createdAt).toLocaleString()}`
+                }
+              </SheetDescription>
+            </SheetHeader>
+
+            {canEdit && (
+              <Button variant="outline" className="w-full" onClick={() => onEdit(expense)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                {isOwnDraft ? 'Resume draft' : 'Edit & resubmit'}
+              </Button>
+            )}
+
+            {expense.status === 'Approved' && isFinanceAdmin(user) && (
+              <ReimbursementAction key={expense.id} expense={expense} />
+            )}
+
+            <section>
+              <h3 className="font-semibold text-sm mb-2">Submitted Details</h3>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <DetailField label="Vendor" value={expense.form.vendor} />
+                <DetailField label="Date" value={expense.form.date} />
+                <DetailField label="Amount" value={formatAmount(expense.form.amount, expense.form.currency)} />
+                {expense.form.currency !== REPORTING_CURRENCY && (
+                  <DetailField
+                    label={`In ${REPORTING_CURRENCY}`}
+                    value={expense.conversion
+                      ? `${formatMoney(expense.conversion.amount)} (rate ${expense.conversion.rate}, ${expense.conversion.ratesAsOf})`
+                      : `≈ ${formatMoney(getReportingAmount(expense))} at current rates`
+                    }
+                  />
+                )}
+                <DetailField label="Category" value={expense.form.category} />
+                <DetailField label="Department" value={expense.department} />
+                <DetailField label="Receipt" value={expense.receiptFileName} />
+              </div>
+              {expense.form.description && (
+                <div className="mt-3 text-sm">
+                  <span className="text-muted-foreground">Description:</span>
+                  <p className="whitespace-pre-wrap">{expense.form.description}</p>
+                </div>
+              )}
+            </section>
+
+            {expense.form.type === 'mileage' && expense.form.mileage && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Mileage</h3>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <DetailField label="From" value={expense.form.mileage.origin} />
+                    <DetailField label="To" value={expense.form.mileage.destination} />
+                    <DetailField label="Distance" value={`${expense.form.mileage.distance} ${expense.form.mileage.unit}`} />
+                    <DetailField label="Vehicle" value={expense.form.mileage.vehicleType} />
+                    <DetailField
+                      label="Rate"
+                      value={expense.form.mileage.rate
+                        ? `${formatMoney(expense.form.mileage.rate)}/${expense.form.mileage.unit} from ${expense.form.mileage.rateEffectiveFrom}`
+                        : undefined
+                      }
+                    />
+                    <DetailField label="Purpose" value={expense.form.mileage.purpose} />
+                  </div>
+                </section>
+              </>
+            )}
+
+            {expense.form.type === 'per_diem' && expense.form.perDiem && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Per Diem</h3>
+                  <div className="grid grid-cols-2 gap-3 text-sm mb-3">
+                    <DetailField label="Destination" value={expense.form.perDiem.destination} />
+                    <DetailField
+                      label="Daily rate"
+                      value={expense.form.perDiem.dailyRate ? formatMoney(expense.form.perDiem.dailyRate) : undefined}
+                    />
+                    <DetailField label="Trip" value={`${expense.form.perDiem.startDate} to ${expense.form.perDiem.endDate}`} />
+                    <DetailField label="Purpose" value={expense.form.perDiem.purpose} />
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Day</TableHead>
+                        <TableHead>Meals provided</TableHead>
+                        <TableHead className="text-right">Deduction</TableHead>
+                        <TableHead className="text-right">Allowance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {expense.form.perDiem.days.map(day => (
+                        <TableRow key={day.date}>
+                          <TableCell>
+                            {day.date}
+                            {day.proration < 1 && (
+                              <span className="text-xs text-muted-foreground"> ({Math.round(day.proration * 100)}%)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {day.providedMeals.map(meal => MEAL_LABELS[meal]).join(', ') || '—'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {day.deduction > 0 ? `−${formatMoney(day.deduction)}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatMoney(day.allowance)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </section>
+              </>
+            )}
+
+            {isSplit(expense.form) && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Splits</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Cost center</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Policy</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {expense.form.splits.map((split, i) => {
+                        const verdict = expense.splitValidations?.[split.id]
+                        return (
+                          <TableRow key={split.id}>
+                            <TableCell>{split.description || `Split ${i + 1}`}</TableCell>
+                            <TableCell>{split.category}</TableCell>
+                            <TableCell>{costCenterLabel(split.costCenter)}</TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatAmount(split.amount, expense.form.currency)}
+                            </TableCell>
+                            <TableCell>
+                              {!verdict ? (
+                                <span className="text-muted-foreground">Not checked</span>
+                              ) : verdict.is_compliant ? (
+                                <Badge variant="default" className="bg-green-600">Compliant</Badge>
+                              ) : (
+                                <Badge variant="destructive">Issues</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </section>
+              </>
+            )}
+
+            {expense.result && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Extracted by Agent</h3>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <DetailField label="Vendor" value={expense.result.expense_details.vendor} />
+                    <DetailField label="Date" value={expense.result.expense_details.date} />
+                    <DetailField
+                      label="Amount"
+                      value={formatMoney(expense.result.expense_details.amount, expense.result.expense_details.currency)}
+                    />
+                    <DetailField label="Category" value={expense.result.expense_details.category} />
+                  </div>
+                  {expense.result.expense_details.items.length > 0 && (
+                    <div className="mt-3">
+                      <span className="text-muted-foreground text-sm">Items:</span>
+                      <ul className="list-disc list-inside text-sm mt-1">
+                        {expense.result.expense_details.items.map((item, i) => (
+                          <li key={i}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </section>
+              </>
+            )}
+
+            <Separator />
+
+            <section>
+              <h3 className="font-semibold text-sm mb-2">Receipt</h3>
+              <ReceiptPreview expense={expense} />
+            </section>
+
+            {expense.duplicateOverride && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-amber-600" />
+                    Possible Duplicate
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {expense.duplicateOverride.actor.name} submitted this despite a match
+                    with {expense.duplicateOverride.matchedExpenseIds.length} existing expense
+                    {expense.duplicateOverride.matchedExpenseIds.length === 1 ? '' : 's'}.
+                  </p>
+                  <p className="mt-1 text-sm italic">"{expense.duplicateOverride.reason}"</p>
+                </section>
+              </>
+            )}
+
+            {ruleProblems.length > 0 && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-amber-600" />
+                    Submission Rules
+                  </h3>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                    {ruleProblems.map((problem, i) => (
+                      <li key={i}>{problem.message}</li>
+                    ))}
+                  </ul>
+                </section>
+              </>
+            )}
+
+            {expense.result && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Policy Findings</h3>
+                  {policyDisagreements(expense).map((disagreement, i) => (
+                    <p key={i} className="mb-2 text-sm text-amber-700 flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      Flagged for review: {disagreement}
+                    </p>
+                  ))}
+                  <PolicyValidationSummary validation={combinedPolicyValidation(expense)} />
+                  <PolicySourceLinks sources={getResultSources(expense.result)} text={expense.result.answer} className="mt-2" />
+                  {expense.ruleEvaluation && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Checked against policy rule set version {expense.ruleEvaluation.ruleSetVersion}
+                    </p>
+                  )}
+                </section>
+              </>
+            )}
+
+            {expense.result?.recommendations.length > 0 && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="font-semibold text-sm mb-2">Recommendations</h3>
+                  <ul className="space-y-1">
+                    {expense.result.recommendations.map((rec, i) => (
+                      <li key={i} className="text-sm text-muted-foreground flex items-start gap-2">
+                        <span className="text-primary mt-0.5">•</span>
+                        <span>{rec}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              </>
+            )}
+
+            <Separator />
+
+            <section>
+              <h3 className="font-semibold text-sm mb-2">Approval Chain</h3>
+              <ApprovalChainProgress chain={expense.approvalChain} detailed />
+            </section>
+
+            <Separator />
+
+            <section>
+              <h3 className="font-semibold text-sm mb-2">Versions</h3>
+              <VersionHistory expense={expense} />
+            </section>
+
+            <Separator />
+
+            <section>
+              <h3 className="font-semibold text-sm mb-2">Timeline</h3>
+              <ol className="relative border-l pl-4 space-y-4">
+                {getExpenseTimeline(expense).map((entry, i) => (
+                  <li key={i} className="text-sm">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                    <p className="font-medium">{entry.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.actor.name} · {new Date(entry.at).toLocaleString()}
+                    </p>
+                    {entry.comment && (
+                      <p className="mt-1 text-muted-foreground italic">"{entry.comment}"</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react'
+import { format, isValid, parseISO } from 'date-fns'
+import type { DateRange } from 'react-day-picker'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { CalendarIcon, ChevronDown, Search, X } from 'lucide-react'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { EXPENSE_STATUSES } from '@/utils/expenseLifecycle'
+import { countActiveFilters, type ExpenseFilters } from '@/utils/expenseFilters'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+// The tracking grid never lists drafts
+const FILTERABLE_STATUSES = EXPENSE_STATUSES.filter(status => status !== 'Draft')
+
+interface ExpenseFiltersBarProps {
+  filters: ExpenseFilters
+  onChange: (filters: ExpenseFilters) => void
+  onReset: () => void
+}
+
+function MultiSelectFilter<T extends string>({ id, label, allLabel, options, selected, onChange }: {
+  id: string
+  label: string
+  allLabel: string
+  options: readonly T[]
+  selected: T[]
+  onChange: (selected: T[]) => void
+}) {
+  const toggle = (option: T, checked: boolean) => {
+    onChange(checked ? [...selected, option] : selected.filter(value => value !== option))
+  }
+
+  return (
+    <div>
+      <Label htmlFor={id} className="text-sm">{label}</Label>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button id={id} variant="outline" className="mt-1.5 w-full justify-between font-normal">
+            <span className="truncate">
+              {selected.length === 0 ? allLabel : selected.length === 1 ? selected[0] : `${selected.length} selected`}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          {options.map(option => (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={selected.includes(option)}
+              onCheckedChange={(checked) => toggle(option, checked === true)}
+              onSelect={(event) => event.preventDefault()}
+            >
+              {option}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
+
+// Filters normally arrive validated; anything else is treated as unset
+// rather than crashing the date formatting
+function toDate(value?: string): Date | undefined {
+  if (!value) return undefined
+  const date = parseISO(value)
+  return isValid(date) ? date : undefined
+}
+
+function formatRange(from?: string, to?: string): string {
+  const fromDate = toDate(from)
+  const toDateValue = toDate(to)
+  const label = (date: Date) => format(date, 'MMM d, yyyy')
+  if (fromDate && toDateValue) return `${label(fromDate)} – ${label(toDateValue)}`
+  if (fromDate) return `From ${label(fromDate)}`
+  if (toDateValue) return `Until ${label(toDateValue)}`
+  return 'Any date'
+}
+
+function toAmountText(value?: number): string {
+  return value === undefined ? '' : String(value)
+}
+
+function parseAmountText(text: string): number | undefined {
+  const value = parseFloat(text)
+  return text.trim() === '' || !Number.isFinite(value) ? undefined : value
+}
+
+export function ExpenseFiltersBar({ filters, onChange, onReset }: ExpenseFiltersBarProps) {
+  // Amounts are edited as text and committed on blur so partial input like
+  // "12." is not rewritten while typing
+  const [minText, setMinText] = useState(toAmountText(filters.minAmount))
+  const [maxText, setMaxText] = useState(toAmountText(filters.maxAmount))
+
+  useEffect(() => setMinText(toAmountText(filters.minAmount)), [filters.minAmount])
+  useEffect(() => setMaxText(toAmountText(filters.maxAmount)), [filters.maxAmount])
+
+  const activeCount = countActiveFilters(filters)
+
+  const rangeFrom = toDate(filters.from)
+  const rangeTo = toDate(filters.to)
+  const range: DateRange | undefined = rangeFrom || rangeTo ? { from: rangeFrom, to: rangeTo } : undefined
+
+  const handleRangeSelect = (selected: DateRange | undefined) => {
+    onChange({
+      ...filters,
+      from: selected?.from ? format(selected.from, 'yyyy-MM-dd') : undefined,
+      to: selected?.to ? format(selected.to, 'yyyy-MM-dd') : undefined,
+    })
+  }
+
+  const commitAmounts = () => {
+    const minAmount = parseAmountText(minText)
+    const maxAmount = parseAmountText(maxText)
+    if (minAmount !== filters.minAmount || maxAmount !== filters.maxAmount) {
+      onChange({ ...filters, minAmount, maxAmount })
+    }
+  }
+
+  const handleAmountKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitAmounts()
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <Label htmlFor="vendor-filter" className="text-sm">Vendor</Label>
+          <div className="relative mt-1.5">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="vendor-filter"
+              value={filters.vendor}
+              onChange={(e) => onChange({ ...filters, vendor: e.target.value })}
+              placeholder="Search vendors"
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="date-filter" className="text-sm">Date Range</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button id="date-filter" variant="outline" className="mt-1.5 w-full justify-start font-normal">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                <span className="truncate">{formatRange(filters.from, filters.to)}</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={handleRangeSelect}
+                defaultMonth={range?.from}
+                numberOfMonths={2}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <MultiSelectFilter
+          id="category-filter"
+          label="Categories"
+          allLabel="All Categories"
+          options={EXPENSE_CATEGORIES}
+          selected={filters.categories}
+          onChange={(categories) => onChange({ ...filters, categories })}
+        />
+
+        <MultiSelectFilter
+          id="status-filter"
+          label="Statuses"
+          allLabel="All Statuses"
+          options={FILTERABLE_STATUSES}
+          selected={filters.statuses}
+          onChange={(statuses) => onChange({ ...filters, statuses })}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label htmlFor="min-amount-filter" className="text-sm">Amount ({REPORTING_CURRENCY})</Label>
+          <div className="mt-1.5 flex items-center gap-2">
+            <Input
+              id="min-amount-filter"
+              type="number"
+              step="0.01"
+              min="0"
+              value={minText}
+              onChange={(e) => setMinText(e.target.value)}
+              onBlur={commitAmounts}
+              onKeyDown={handleAmountKeyDown}
+              placeholder="Min"
+              className="w-28"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              id="max-amount-filter"
+              type="number"
+              step="0.01"
+              min="0"
+              value={maxText}
+              onChange={(e) => setMaxText(e.target.value)}
+              onBlur={commitAmounts}
+              onKeyDown={handleAmountKeyDown}
+              placeholder="Max"
+              className="w-28"
+              aria-label="Maximum amount"
+            />
+          </div>
+        </div>
+
+        {activeCount > 0 && (
+          <Button variant="ghost" onClick={onReset}>
+            <X className="h-4 w-4 mr-2" />
+            Clear filters
+            <Badge variant="secondary" className="ml-2">{activeCount}</Badge>
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
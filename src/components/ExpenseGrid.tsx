@@ -0,0 +1,404 @@
+import { useMemo, useRef, useState } from 'react'
+import {
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type ColumnDef,
+  type RowSelectionState,
+  type SortingState,
+  type VisibilityState,
+} from '@tanstack/react-table'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination'
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Loader2 } from 'lucide-react'
+import { ExpenseStatusBadge } from '@/components/ExpenseStatusBadge'
+import { getSubmitter } from '@/utils/approvals'
+import { combinedPolicyValidation } from '@/utils/expenseSplits'
+import { REPORTING_CURRENCY, formatAmount, formatMoney } from '@/utils/currency'
+import { getReportingAmount, useExchangeRates } from '@/utils/exchangeRates'
+import { cn } from '@/lib/utils'
+import type { ExchangeRateTable, StoredExpense } from '@/types'
+
+interface ExpenseGridProps {
+  expenses: StoredExpense[]
+  loading?: boolean
+  emptyMessage: string
+  onRowClick?: (expense: StoredExpense) => void
+}
+
+const PAGE_SIZES = [25, 100, 500, 1000]
+const ROW_HEIGHT = 49
+const VIEWPORT_HEIGHT = 600
+
+function SortableHeader({ label, sorted, onClick, align }: {
+  label: string
+  sorted: false | 'asc' | 'desc'
+  onClick: (event: unknown) => void
+  align?: 'right'
+}) {
+  const Icon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onClick}
+      className={cn('-mx-3 h-8', align === 'right' && 'ml-auto flex')}
+    >
+      {label}
+      <Icon className={cn('h-3 w-3 ml-1', !sorted && 'text-muted-foreground')} />
+    </Button>
+  )
+}
+
+// Rows without a stored conversion are converted with the rates passed in,
+// read once per render rather than once per row
+function buildColumns(rates: ExchangeRateTable): ColumnDef<StoredExpense>[] {
+  return [
+    {
+      id: 'select',
+      header: ({ table }) => (
+        <Checkbox
+          checked={table.getIsAllRowsSelected() ? true : table.getIsSomeRowsSelected() ? 'indeterminate' : false}
+          onCheckedChange={(checked) => table.toggleAllRowsSelected(checked === true)}
+          aria-label="Select all expenses"
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsSelected()}
+          onCheckedChange={(checked) => row.toggleSelected(checked === true)}
+          onClick={(event) => event.stopPropagation()}
+          aria-label={`Select ${row.original.form.vendor}`}
+        />
+      ),
+      enableSorting: false,
+      enableHiding: false,
+    },
+    {
+      id: 'date',
+      accessorFn: expense => expense.form.date,
+      header: 'Date',
+      cell: ({ getValue }) => <span className="font-medium">{getValue<string>()}</span>,
+    },
+    {
+      id: 'vendor',
+      accessorFn: expense => expense.form.vendor,
+      header: 'Vendor',
+    },
+    {
+      id: 'amount',
+      accessorFn: expense => getReportingAmount(expense, rates),
+      header: `Amount (${REPORTING_CURRENCY})`,
+      cell: ({ row, getValue }) => {
+        const { amount, currency } = row.original.form
+        return (
+          <div className="text-right font-mono whitespace-nowrap">
+            {currency !== REPORTING_CURRENCY && (
+              <span className="mr-2 text-xs text-muted-foreground">{formatAmount(amount, currency)}</span>
+            )}
+            {formatMoney(getValue<number>())}
+          </div>
+        )
+      },
+      meta: { align: 'right' },
+    },
+    {
+      id: 'category',
+      accessorFn: expense => expense.form.category,
+      header: 'Category',
+      cell: ({ row, getValue }) => {
+        const splits = row.original.form.splits ?? []
+        return (
+          <span className="flex items-center gap-1.5">
+            {getValue<string>()}
+            {splits.length > 0 && <Badge variant="outline">{splits.length} splits</Badge>}
+          </span>
+        )
+      },
+    },
+    {
+      id: 'submitter',
+      accessorFn: expense => getSubmitter(expense)?.name ?? '',
+      header: 'Submitted by',
+    },
+    {
+      id: 'department',
+      accessorFn: expense => expense.department,
+      header: 'Department',
+    },
+    {
+      id: 'policy',
+      accessorFn: expense => combinedPolicyValidation(expense)?.is_compliant,
+      header: 'Policy',
+      cell: ({ getValue }) => {
+        const compliant = getValue<boolean | undefined>()
+        if (compliant === undefined) return <span className="text-muted-foreground">Not checked</span>
+        return compliant
+          ? <Badge variant="default" className="bg-green-600">Compliant</Badge>
+          : <Badge variant="destructive">Issues</Badge>
+      },
+    },
+    {
+      id: 'status',
+      accessorFn: expense => expense.status,
+      header: 'Status',
+      cell: ({ row }) => <ExpenseStatusBadge status={row.original.status} />,
+    },
+    {
+      id: 'updatedAt',
+      accessorFn: expense => expense.updatedAt,
+      header: 'Last updated',
+      cell: ({ getValue }) => new Date(getValue<string>()).toLocaleDateString(),
+    },
+  ]
+}
+
+const DEFAULT_VISIBILITY: VisibilityState = {
+  submitter: false,
+  department: false,
+  policy: false,
+  updatedAt: false,
+}
+
+/**
+ * Page numbers to show around the current page, with ellipses for gaps
+ */
+function getPageWindow(pageIndex: number, pageCount: number): (number | 'ellipsis')[] {
+  const pages = new Set([0, pageCount - 1, pageIndex - 1, pageIndex, pageIndex + 1])
+  const sorted = [...pages].filter(page => page >= 0 && page < pageCount).sort((a, b) => a - b)
+
+  return sorted.flatMap((page, i) => i > 0 && page - sorted[i - 1] > 1 ? ['ellipsis' as const, page] : [page])
+}
+
+export function ExpenseGrid({ expenses, loading = false, emptyMessage, onRowClick }: ExpenseGridProps) {
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'date', desc: true }])
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(DEFAULT_VISIBILITY)
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const { table: rates } = useExchangeRates()
+  const columns = useMemo(() => buildColumns(rates), [rates])
+
+  const table = useReactTable({
+    data: expenses,
+    columns,
+    state: { sorting, columnVisibility, rowSelection },
+    initialState: { pagination: { pageIndex: 0, pageSize: PAGE_SIZES[0] } },
+    getRowId: expense => expense.id,
+    onSortingChange: setSorting,
+    onColumnVisibilityChange: setColumnVisibility,
+    onRowSelectionChange: setRowSelection,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+  })
+
+  const rows = table.getRowModel().rows
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  })
+
+  const virtualRows = virtualizer.getVirtualItems()
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0
+  const paddingBottom = virtualRows.length > 0
+    ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+    : 0
+
+  const selectedRows = table.getSelectedRowModel().rows
+  const selectedTotal = selectedRows.reduce((sum, row) => sum + getReportingAmount(row.original, rates), 0)
+
+  const { pageIndex, pageSize } = table.getState().pagination
+  const pageCount = table.getPageCount()
+  const visibleColumnCount = table.getVisibleLeafColumns().length
+
+  const goToPage = (event: React.MouseEvent, page: number) => {
+    event.preventDefault()
+    table.setPageIndex(page)
+    scrollRef.current?.scrollTo({ top: 0 })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground">
+          {selectedRows.length > 0 && (
+            <span className="flex items-center gap-2">
+              {selectedRows.length} selected · {formatMoney(selectedTotal)}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => table.resetRowSelection()}>
+                Clear
+              </Button>
+            </span>
+          )}
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {table.getAllLeafColumns().filter(column => column.getCanHide()).map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={column.getIsVisible()}
+                onCheckedChange={(checked) => column.toggleVisibility(checked === true)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {String(column.columnDef.header)}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div ref={scrollRef} className="rounded-md border overflow-auto" style={{ maxHeight: VIEWPORT_HEIGHT }}>
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => {
+                  const align = (header.column.columnDef.meta as { align?: 'right' } | undefined)?.align
+                  return (
+                    <TableHead key={header.id} className={cn(header.column.id === 'select' && 'w-10')}>
+                      {header.column.getCanSort() ? (
+                        <SortableHeader
+                          label={String(header.column.columnDef.header)}
+                          sorted={header.column.getIsSorted()}
+                          onClick={header.column.getToggleSortingHandler()}
+                          align={align}
+                        />
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumnCount} className="text-center py-8 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                  Loading expenses...
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumnCount} className="text-center py-8 text-muted-foreground">
+                  {emptyMessage}
+                </TableCell>
+              </TableRow>
+            ) : (
+              <>
+                {paddingTop > 0 && (
+                  <tr><td colSpan={visibleColumnCount} style={{ height: paddingTop }} /></tr>
+                )}
+                {virtualRows.map(virtualRow => {
+                  const row = rows[virtualRow.index]
+                  return (
+                    <TableRow
+                      key={row.id}
+                      data-state={row.getIsSelected() ? 'selected' : undefined}
+                      onClick={() => onRowClick?.(row.original)}
+                      className={cn(onRowClick && 'cursor-pointer')}
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      {row.getVisibleCells().map(cell => (
+                        <TableCell key={cell.id}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )
+                })}
+                {paddingBottom > 0 && (
+                  <tr><td colSpan={visibleColumnCount} style={{ height: paddingBottom }} /></tr>
+                )}
+              </>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap">
+          Rows per page
+          <Select value={String(pageSize)} onValueChange={(value) => table.setPageSize(Number(value))}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(event) => goToPage(event, pageIndex - 1)}
+                  className={cn(!table.getCanPreviousPage() && 'pointer-events-none opacity-50')}
+                  aria-disabled={!table.getCanPreviousPage()}
+                />
+              </PaginationItem>
+              {getPageWindow(pageIndex, pageCount).map((page, i) => (
+                <PaginationItem key={page === 'ellipsis' ? `ellipsis-${i}` : page}>
+                  {page === 'ellipsis' ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={page === pageIndex} onClick={(event) => goToPage(event, page)}>
+                      {page + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(event) => goToPage(event, pageIndex + 1)}
+                  className={cn(!table.getCanNextPage() && 'pointer-events-none opacity-50')}
+                  aria-disabled={!table.getCanNextPage()}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  )
+}
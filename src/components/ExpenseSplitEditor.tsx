@@ -0,0 +1,123 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Split, Trash2 } from 'lucide-react'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { COST_CENTERS, createSplit, formatCents, getSplitAllocation } from '@/utils/expenseSplits'
+import { amountStep } from '@/utils/currency'
+import type { ExpenseFormData, ExpenseSplit } from '@/types'
+
+interface ExpenseSplitEditorProps {
+  form: ExpenseFormData
+  /** Cost center given to newly added lines */
+  defaultCostCenter: string
+  onChange: (splits: ExpenseSplit[]) => void
+  onRemoveSplit: () => void
+  disabled?: boolean
+}
+
+export function ExpenseSplitEditor({ form, defaultCostCenter, onChange, onRemoveSplit, disabled = false }: ExpenseSplitEditorProps) {
+  const splits = form.splits ?? []
+  const { totalCents, allocatedCents, remainingCents } = getSplitAllocation(form)
+
+  const updateSplit = (id: string, changes: Partial<ExpenseSplit>) => {
+    onChange(splits.map(split => split.id === id ? { ...split, ...changes } : split))
+  }
+
+  const addSplit = () => {
+    onChange([
+      ...splits,
+      createSplit({
+        amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : '',
+        costCenter: defaultCostCenter
+      })
+    ])
+  }
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <Split className="h-4 w-4" />
+          Split across categories
+        </h3>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemoveSplit} disabled={disabled}>
+          Remove split
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {splits.map((split, i) => (
+          <div key={split.id} className="grid grid-cols-[1fr_6rem_9rem_10rem_auto] gap-2 items-center">
+            <Input
+              value={split.description}
+              onChange={(e) => updateSplit(split.id, { description: e.target.value })}
+              placeholder={`Line ${i + 1}, e.g. Room charge`}
+              aria-label={`Split ${i + 1} description`}
+              disabled={disabled}
+            />
+            <Input
+              type="number"
+              step={amountStep(form.currency)}
+              value={split.amount}
+              onChange={(e) => updateSplit(split.id, { amount: e.target.value })}
+              placeholder="0.00"
+              aria-label={`Split ${i + 1} amount`}
+              disabled={disabled}
+            />
+            <Select
+              value={split.category}
+              onValueChange={(value) => updateSplit(split.id, { category: value })}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-label={`Split ${i + 1} category`}>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPENSE_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={split.costCenter}
+              onValueChange={(value) => updateSplit(split.id, { costCenter: value })}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-label={`Split ${i + 1} cost center`}>
+                <SelectValue placeholder="Cost center" />
+              </SelectTrigger>
+              <SelectContent>
+                {COST_CENTERS.map(center => (
+                  <SelectItem key={center.code} value={center.code}>{center.code} · {center.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(splits.filter(other => other.id !== split.id))}
+              disabled={disabled}
+              aria-label={`Remove split ${i + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <Button type="button" variant="outline" size="sm" onClick={addSplit} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <p className={remainingCents === 0 ? 'text-green-600' : 'text-destructive'}>
+          Allocated {formatCents(allocatedCents, form.currency)} of {formatCents(totalCents, form.currency)}
+          {remainingCents > 0 && ` · ${formatCents(remainingCents, form.currency)} left`}
+          {remainingCents < 0 && ` · ${formatCents(-remainingCents, form.currency)} over`}
+        </p>
+      </div>
+    </div>
+  )
+}
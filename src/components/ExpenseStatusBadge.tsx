@@ -0,0 +1,8 @@
+import { Badge } from '@/components/ui/badge'
+import { STATUS_BADGES } from '@/utils/expenseLifecycle'
+import type { ExpenseStatus } from '@/types'
+
+export function ExpenseStatusBadge({ status }: { status: ExpenseStatus }) {
+  const badge = STATUS_BADGES[status]
+  return <Badge variant={badge.variant} className={badge.className}>{status}</Badge>
+}
@@ -0,0 +1,125 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Car } from 'lucide-react'
+import { DISTANCE_UNIT_LABELS, VEHICLE_TYPES, createMileageDetails } from '@/utils/mileage'
+import { formatAmount, formatMoney } from '@/utils/currency'
+import type { DistanceUnit, ExpenseFormData, MileageDetails } from '@/types'
+
+interface MileageFieldsProps {
+  form: ExpenseFormData
+  onDateChange: (date: string) => void
+  onChange: (changes: Partial<MileageDetails>) => void
+}
+
+export function MileageFields({ form, onDateChange, onChange }: MileageFieldsProps) {
+  const mileage = form.mileage ?? createMileageDetails()
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="mileage-origin">From</Label>
+          <Input
+            id="mileage-origin"
+            value={mileage.origin}
+            onChange={(e) => onChange({ origin: e.target.value })}
+            placeholder="e.g., Head office"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="mileage-destination">To</Label>
+          <Input
+            id="mileage-destination"
+            value={mileage.destination}
+            onChange={(e) => onChange({ destination: e.target.value })}
+            placeholder="e.g., Client site, Leeds"
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="mileage-date">Trip date</Label>
+          <Input
+            id="mileage-date"
+            type="date"
+            value={form.date}
+            onChange={(e) => onDateChange(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="mileage-distance">Distance</Label>
+          <div className="flex gap-2">
+            <Input
+              id="mileage-distance"
+              type="number"
+              step="0.1"
+              min="0"
+              value={mileage.distance}
+              onChange={(e) => onChange({ distance: e.target.value })}
+              placeholder="0"
+              required
+            />
+            <Select value={mileage.unit} onValueChange={(value) => onChange({ unit: value as DistanceUnit })}>
+              <SelectTrigger aria-label="Distance unit" className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]).map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="mileage-vehicle">Vehicle</Label>
+          <Select value={mileage.vehicleType} onValueChange={(value) => onChange({ vehicleType: value })}>
+            <SelectTrigger id="mileage-vehicle">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VEHICLE_TYPES.map(vehicle => (
+                <SelectItem key={vehicle} value={vehicle}>{vehicle}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="mileage-purpose">Trip purpose</Label>
+        <Input
+          id="mileage-purpose"
+          value={mileage.purpose}
+          onChange={(e) => onChange({ purpose: e.target.value })}
+          placeholder="e.g., Quarterly review with Acme"
+          required
+        />
+      </div>
+
+      <div className="rounded-md bg-muted p-3 text-sm flex items-center gap-2">
+        <Car className="h-4 w-4 text-muted-foreground" />
+        {mileage.rate ? (
+          <span>
+            {mileage.distance || 0} {mileage.unit} × {formatMoney(mileage.rate)}/{mileage.unit}
+            <span className="text-muted-foreground"> (rate from {mileage.rateEffectiveFrom})</span>
+            {' = '}
+            <span className="font-semibold">{formatAmount(form.amount, form.currency)}</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">
+            {form.date
+              ? `No ${mileage.vehicleType} rate per ${mileage.unit} is in effect on ${form.date}`
+              : 'Pick the trip date to look up the rate'
+            }
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
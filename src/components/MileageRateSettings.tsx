@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Plus, Trash2, Save, RotateCcw, CheckCircle, XCircle } from 'lucide-react'
+import { DISTANCE_UNIT_LABELS, VEHICLE_TYPES, findMileageRate, useMileageRates, validateMileageRates } from '@/utils/mileage'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+import { generateId } from '@/utils'
+import type { DistanceUnit, MileageRate } from '@/types'
+
+function sortRates(rates: MileageRate[]): MileageRate[] {
+  return [...rates].sort((a, b) =>
+    a.vehicleType.localeCompare(b.vehicleType)
+    || a.unit.localeCompare(b.unit)
+    || a.effectiveFrom.localeCompare(b.effectiveFrom)
+  )
+}
+
+export function MileageRateSettings() {
+  const { rates, saveRates, resetRates } = useMileageRates()
+  const [draft, setDraft] = useState<MileageRate[]>(sortRates(rates))
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    setDraft(sortRates(rates))
+  }, [rates])
+
+  const problems = validateMileageRates(draft)
+  const today = new Date().toISOString().slice(0, 10)
+
+  const updateRate = (id: string, changes: Partial<MileageRate>) => {
+    setSaved(false)
+    setDraft(prev => prev.map(rate => rate.id === id ? { ...rate, ...changes } : rate))
+  }
+
+  const removeRate = (id: string) => {
+    setSaved(false)
+    setDraft(prev => prev.filter(rate => rate.id !== id))
+  }
+
+  const addRate = () => {
+    setSaved(false)
+    setDraft(prev => [
+      ...prev,
+      { id: generateId(), vehicleType: VEHICLE_TYPES[0], unit: 'km', rate: NaN, effectiveFrom: today },
+    ])
+  }
+
+  const handleSave = () => {
+    const result = saveRates(draft)
+    if (result.success) {
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || 'Failed to save rates')
+    }
+  }
+
+  const handleReset = () => {
+    resetRates()
+    setError(null)
+    setSaved(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          A rate applies to trips from its effective date until a later rate for the same
+          vehicle and unit takes over. Add a new row for a rate change instead of editing the old one.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={addRate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add rate
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave} disabled={problems.length > 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {(error || problems.length > 0) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error || problems.join('; ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>Mileage rates saved</AlertDescription>
+        </Alert>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Vehicle</TableHead>
+            <TableHead>Unit</TableHead>
+            <TableHead>Rate ({REPORTING_CURRENCY} per unit)</TableHead>
+            <TableHead>Effective from</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draft.map(rate => {
+            const isCurrent = findMileageRate(rate.vehicleType, rate.unit, today, draft)?.id === rate.id
+            return (
+              <TableRow key={rate.id}>
+                <TableCell>
+                  <Select value={rate.vehicleType} onValueChange={(value) => updateRate(rate.id, { vehicleType: value })}>
+                    <SelectTrigger className="w-36" aria-label="Vehicle type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VEHICLE_TYPES.map(vehicle => (
+                        <SelectItem key={vehicle} value={vehicle}>{vehicle}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select value={rate.unit} onValueChange={(value) => updateRate(rate.id, { unit: value as DistanceUnit })}>
+                    <SelectTrigger className="w-32" aria-label="Distance unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]).map(unit => (
+                        <SelectItem key={unit} value={unit}>{DISTANCE_UNIT_LABELS[unit]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={Number.isFinite(rate.rate) ? rate.rate : ''}
+                    onChange={(e) => updateRate(rate.id, { rate: parseFloat(e.target.value) })}
+                    aria-label="Rate"
+                    className="w-28"
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      value={rate.effectiveFrom}
+                      onChange={(e) => updateRate(rate.id, { effectiveFrom: e.target.value })}
+                      aria-label="Effective from"
+                      className="w-40"
+                    />
+                    {isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Button size="icon" variant="ghost" onClick={() => removeRate(rate.id)} aria-label="Delete rate">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
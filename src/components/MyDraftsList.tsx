@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FileText, Paperclip, Trash2 } from 'lucide-react'
+import { discardDraft, useMyDrafts } from '@/utils/expenseDrafts'
+import { formatAmount } from '@/utils/currency'
+import type { StoredExpense } from '@/types'
+
+interface MyDraftsListProps {
+  /** Draft currently open in the form, left out of the list */
+  activeDraftId?: string | null
+  onResume: (draft: StoredExpense) => void
+}
+
+function draftTitle(draft: StoredExpense): string {
+  const { vendor, amount, currency } = draft.form
+  const parts = [vendor || draft.receiptFileName || 'Untitled expense']
+  if (amount) parts.push(formatAmount(amount, currency))
+  return parts.join(' · ')
+}
+
+export function MyDraftsList({ activeDraftId, onResume }: MyDraftsListProps) {
+  const { drafts } = useMyDrafts()
+  const [error, setError] = useState<string | null>(null)
+
+  const visible = drafts.filter(draft => draft.id !== activeDraftId)
+  if (visible.length === 0) return null
+
+  const handleDiscard = async (draft: StoredExpense) => {
+    const result = await discardDraft(draft.id)
+    setError(result.success ? null : result.error || 'Draft could not be discarded')
+  }
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <h3 className="font-semibold text-sm flex items-center gap-2">
+        <FileText className="h-4 w-4" />
+        My drafts ({visible.length})
+      </h3>
+      <ul className="divide-y">
+        {visible.map(draft => (
+          <li key={draft.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{draftTitle(draft)}</p>
+              <p className="text-xs text-muted-foreground flex items-center gap-2">
+                Saved {new Date(draft.updatedAt).toLocaleString()}
+                {draft.receiptAssetIds.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    {draft.receiptFileName || 'Receipt attached'}
+                  </span>
+                )}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" variant="outline" onClick={() => onResume(draft)}>
+                Resume
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDiscard(draft)}
+                aria-label={`Discard ${draftTitle(draft)}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
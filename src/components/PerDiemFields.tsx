@@ -0,0 +1,133 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { MEALS, MEAL_LABELS, createPerDiemDetails } from '@/utils/perDiem'
+import { formatAmount, formatMoney } from '@/utils/currency'
+import type { ExpenseFormData, Meal, PerDiemDetails, PerDiemRate } from '@/types'
+
+interface PerDiemFieldsProps {
+  form: ExpenseFormData
+  rates: PerDiemRate[]
+  onChange: (changes: Partial<PerDiemDetails>) => void
+}
+
+export function PerDiemFields({ form, rates, onChange }: PerDiemFieldsProps) {
+  const perDiem = form.perDiem ?? createPerDiemDetails()
+
+  const toggleMeal = (date: string, meal: Meal, provided: boolean) => {
+    const current = perDiem.providedMeals[date] ?? []
+    onChange({
+      providedMeals: {
+        ...perDiem.providedMeals,
+        [date]: provided ? [...current, meal] : current.filter(other => other !== meal),
+      },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="per-diem-destination">Destination</Label>
+          <Select value={perDiem.destination} onValueChange={(value) => onChange({ destination: value })}>
+            <SelectTrigger id="per-diem-destination">
+              <SelectValue placeholder="Select location" />
+            </SelectTrigger>
+            <SelectContent>
+              {rates.map(rate => (
+                <SelectItem key={rate.id} value={rate.location}>
+                  {rate.location} · {formatMoney(rate.dailyRate)}/day
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="per-diem-start">First day</Label>
+          <Input
+            id="per-diem-start"
+            type="date"
+            value={perDiem.startDate}
+            onChange={(e) => onChange({ startDate: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="per-diem-end">Last day</Label>
+          <Input
+            id="per-diem-end"
+            type="date"
+            value={perDiem.endDate}
+            min={perDiem.startDate || undefined}
+            onChange={(e) => onChange({ endDate: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="per-diem-purpose">Trip purpose</Label>
+        <Input
+          id="per-diem-purpose"
+          value={perDiem.purpose}
+          onChange={(e) => onChange({ purpose: e.target.value })}
+          placeholder="e.g., Sales conference"
+          required
+        />
+      </div>
+
+      {perDiem.days.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Rate</TableHead>
+                {MEALS.map(meal => (
+                  <TableHead key={meal} className="text-center">{MEAL_LABELS[meal]} provided</TableHead>
+                ))}
+                <TableHead className="text-right">Deduction</TableHead>
+                <TableHead className="text-right">Allowance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {perDiem.days.map(day => (
+                <TableRow key={day.date}>
+                  <TableCell className="font-medium">{day.date}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {day.proration < 1 ? `${Math.round(day.proration * 100)}% (travel day)` : 'Full day'}
+                  </TableCell>
+                  {MEALS.map(meal => (
+                    <TableCell key={meal} className="text-center">
+                      <Checkbox
+                        checked={day.providedMeals.includes(meal)}
+                        onCheckedChange={(checked) => toggleMeal(day.date, meal, checked === true)}
+                        aria-label={`${MEAL_LABELS[meal]} provided on ${day.date}`}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-mono">
+                    {day.deduction > 0 ? `−${formatMoney(day.deduction)}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatMoney(day.allowance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2 + MEALS.length + 1}>
+                  {perDiem.days.length} day{perDiem.days.length === 1 ? '' : 's'} at {formatMoney(perDiem.dailyRate)}/day
+                </TableCell>
+                <TableCell className="text-right font-mono font-semibold">
+                  {formatAmount(form.amount, form.currency)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Plus, Trash2, Save, RotateCcw, CheckCircle, XCircle } from 'lucide-react'
+import { FIRST_LAST_DAY_RATIO, MEALS, MEAL_LABELS, usePerDiemRates, validatePerDiemRates } from '@/utils/perDiem'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+import { generateId } from '@/utils'
+import type { Meal, PerDiemRate } from '@/types'
+
+export function PerDiemRateSettings() {
+  const { rates, saveRates, resetRates } = usePerDiemRates()
+  const [draft, setDraft] = useState<PerDiemRate[]>(rates)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    setDraft(rates)
+  }, [rates])
+
+  const problems = validatePerDiemRates(draft)
+
+  const updateRate = (id: string, changes: Partial<PerDiemRate>) => {
+    setSaved(false)
+    setDraft(prev => prev.map(rate => rate.id === id ? { ...rate, ...changes } : rate))
+  }
+
+  const updateDeduction = (rate: PerDiemRate, meal: Meal, value: string) => {
+    updateRate(rate.id, { mealDeductions: { ...rate.mealDeductions, [meal]: parseFloat(value) } })
+  }
+
+  const removeRate = (id: string) => {
+    setSaved(false)
+    setDraft(prev => prev.filter(rate => rate.id !== id))
+  }
+
+  const addRate = () => {
+    setSaved(false)
+    setDraft(prev => [
+      ...prev,
+      { id: generateId(), location: '', dailyRate: NaN, mealDeductions: { breakfast: 0, lunch: 0, dinner: 0 } },
+    ])
+  }
+
+  const handleSave = () => {
+    const result = saveRates(draft)
+    if (result.success) {
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || 'Failed to save rates')
+    }
+  }
+
+  const handleReset = () => {
+    resetRates()
+    setError(null)
+    setSaved(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Travelers get the full daily rate for each day away and {FIRST_LAST_DAY_RATIO * 100}% on the
+          first and last day. A provided meal takes its deduction off that day's allowance.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={addRate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add location
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave} disabled={problems.length > 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {(error || problems.length > 0) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error || problems.join('; ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>Per diem rates saved</AlertDescription>
+        </Alert>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Location</TableHead>
+            <TableHead>Daily rate ({REPORTING_CURRENCY})</TableHead>
+            {MEALS.map(meal => (
+              <TableHead key={meal}>{MEAL_LABELS[meal]} deduction</TableHead>
+            ))}
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draft.map(rate => (
+            <TableRow key={rate.id}>
+              <TableCell>
+                <Input
+                  value={rate.location}
+                  onChange={(e) => updateRate(rate.id, { location: e.target.value })}
+                  placeholder="e.g., Boston"
+                  aria-label="Location"
+                  className="w-44"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={Number.isFinite(rate.dailyRate) ? rate.dailyRate : ''}
+                  onChange={(e) => updateRate(rate.id, { dailyRate: parseFloat(e.target.value) })}
+                  aria-label="Daily rate"
+                  className="w-28"
+                />
+              </TableCell>
+              {MEALS.map(meal => (
+                <TableCell key={meal}>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={Number.isFinite(rate.mealDeductions[meal]) ? rate.mealDeductions[meal] : ''}
+                    onChange={(e) => updateDeduction(rate, meal, e.target.value)}
+                    aria-label={`${MEAL_LABELS[meal]} deduction`}
+                    className="w-24"
+                  />
+                </TableCell>
+              ))}
+              <TableCell>
+                <Button size="icon" variant="ghost" onClick={() => removeRate(rate.id)} aria-label="Delete location">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
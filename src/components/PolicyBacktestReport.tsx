@@ -0,0 +1,107 @@
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { REPORTING_CURRENCY, formatMoney } from '@/utils/currency'
+import type { BacktestBreakdown, BacktestReport } from '@/utils/policyBacktest'
+
+function BreakdownTable({ title, label, rows }: { title: string; label: string; rows: BacktestBreakdown[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Newly violating</TableHead>
+            <TableHead className="text-right">Newly passing</TableHead>
+            <TableHead className="text-right">Amount ({REPORTING_CURRENCY})</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell>{row.key}</TableCell>
+              <TableCell className="text-right">{row.newlyViolating}</TableCell>
+              <TableCell className="text-right">{row.newlyPassing}</TableCell>
+              <TableCell className="text-right">{formatMoney(row.amount, REPORTING_CURRENCY)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export function PolicyBacktestReport({ report }: { report: BacktestReport }) {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Expenses checked</p>
+          <p className="text-lg font-semibold">{report.evaluated}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Newly violating</p>
+          <p className="text-lg font-semibold text-red-600">{report.newlyViolating}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Newly passing</p>
+          <p className="text-lg font-semibold text-green-600">{report.newlyPassing}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Amount affected</p>
+          <p className="text-lg font-semibold">{formatMoney(report.affectedAmount, REPORTING_CURRENCY)}</p>
+        </div>
+      </div>
+
+      {report.changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No stored expense changes outcome under these rules.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <BreakdownTable title="By category" label="Category" rows={report.byCategory} />
+            <BreakdownTable title="By department" label="Department" rows={report.byDepartment} />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Changed expenses</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Amount ({REPORTING_CURRENCY})</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Violations</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.changes.map(change => (
+                  <TableRow key={change.expense.id}>
+                    <TableCell>{change.expense.form.vendor}</TableCell>
+                    <TableCell>{change.expense.form.date}</TableCell>
+                    <TableCell>{change.expense.department || 'Unassigned'}</TableCell>
+                    <TableCell className="text-right">{formatMoney(change.amount, REPORTING_CURRENCY)}</TableCell>
+                    <TableCell>
+                      {change.outcome === 'newly_violating'
+                        ? <Badge variant="destructive">Newly violating</Badge>
+                        : <Badge variant="default" className="bg-green-600">Newly passing</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {(change.outcome === 'newly_violating' ? change.proposedViolations : change.currentViolations)
+                        .map(finding => `${finding.message} (rule ${finding.ruleId})`)
+                        .join('; ')}
+                      {change.outcome === 'newly_passing' && ` — under version ${change.currentVersion}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
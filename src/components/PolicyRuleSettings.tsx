@@ -0,0 +1,395 @@
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Plus, Trash2, Upload, Download, Send, FileInput, FlaskConical, CheckCircle, XCircle } from 'lucide-react'
+import { PolicyBacktestReport } from '@/components/PolicyBacktestReport'
+import {
+  RULE_KIND_LABELS,
+  RULE_KIND_PARAMETER,
+  exportPolicyRuleSet,
+  findPolicyRuleSet,
+  parsePolicyRuleSetImport,
+  usePolicyRuleSets,
+  validatePolicyRuleSet,
+} from '@/utils/policyRules'
+import { backtestPolicyRules, type BacktestReport } from '@/utils/policyBacktest'
+import { useExpenses } from '@/utils/expenseRepository'
+import { getCurrentUser, toActor } from '@/utils/currentUser'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+import { generateId } from '@/utils'
+import type { PolicyRule, PolicyRuleKind, PolicyRuleSet, PolicySeverity } from '@/types'
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function toggleValue(values: string[], value: string, checked: boolean): string[] {
+  return checked ? [...values, value] : values.filter(existing => existing !== value)
+}
+
+function parseNumber(value: string): number | undefined {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function downloadRuleSet(ruleSet: PolicyRuleSet) {
+  const blob = new Blob([exportPolicyRuleSet(ruleSet)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `policy-rules-v${ruleSet.version}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function PolicyRuleSettings() {
+  const { ruleSets, publishRuleSet } = usePolicyRuleSets()
+  const { expenses, loading } = useExpenses()
+  const latest = ruleSets[ruleSets.length - 1]
+  const [rules, setRules] = useState<PolicyRule[]>(latest.rules)
+  const [effectiveFrom, setEffectiveFrom] = useState(today)
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [published, setPublished] = useState<number | null>(null)
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setRules(latest.rules)
+  }, [latest])
+
+  const draft = { rules, effectiveFrom, note }
+  const problems = validatePolicyRuleSet(draft, ruleSets)
+  const active = findPolicyRuleSet(today(), ruleSets)
+  const nextVersion = latest.version + 1
+
+  const edit = () => {
+    setPublished(null)
+    setBacktest(null)
+  }
+
+  const updateRule = (index: number, changes: Partial<PolicyRule>) => {
+    edit()
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+  }
+
+  const changeKind = (index: number, kind: PolicyRuleKind) => {
+    updateRule(index, { kind, amount: undefined, keywords: undefined, days: undefined })
+  }
+
+  const removeRule = (index: number) => {
+    edit()
+    setRules(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const addRule = () => {
+    edit()
+    setRules(prev => [
+      ...prev,
+      {
+        id: `rule-${generateId().slice(0, 8)}`,
+        name: 'New rule',
+        kind: 'category_cap',
+        severity: 'violation',
+        enabled: true,
+        categories: [],
+      },
+    ])
+  }
+
+  const loadRuleSet = (ruleSet: PolicyRuleSet) => {
+    edit()
+    setError(null)
+    setRules(ruleSet.rules)
+    setNote(`Based on version ${ruleSet.version}`)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const parsed = parsePolicyRuleSetImport(await file.text())
+    if (!parsed.success) {
+      setError(`Could not import ${file.name}: ${parsed.error}`)
+      return
+    }
+    edit()
+    setError(null)
+    setRules(parsed.data!.rules)
+    setEffectiveFrom(parsed.data!.effectiveFrom)
+    setNote(parsed.data!.note ?? `Imported from ${file.name}`)
+  }
+
+  const handleSimulate = () => {
+    setBacktest(backtestPolicyRules(expenses, draft, ruleSets))
+  }
+
+  const handlePublish = () => {
+    const result = publishRuleSet(draft, toActor(getCurrentUser()))
+    if (result.success) {
+      setError(null)
+      setNote('')
+      setPublished(result.data!.version)
+    } else {
+      setError(result.error || 'Failed to publish rules')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Rules run on every submission alongside the agent. Publishing creates a new version;
+          each expense is checked against the version in effect on its date. Simulate runs the
+          draft over stored expenses first. Import or export rule sets as JSON.
+        </p>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add rule
+          </Button>
+          <Button variant="outline" onClick={handleSimulate} disabled={loading || problems.length > 0}>
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Simulate
+          </Button>
+          <Button onClick={handlePublish} disabled={problems.length > 0}>
+            <Send className="h-4 w-4 mr-2" />
+            Publish version {nextVersion}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="rule-set-effective-from">Effective from</Label>
+          <Input
+            id="rule-set-effective-from"
+            type="date"
+            value={effectiveFrom}
+            onChange={(e) => {
+              edit()
+              setEffectiveFrom(e.target.value)
+            }}
+          />
+        </div>
+        <div>
+          <Label htmlFor="rule-set-note">Change note</Label>
+          <Input
+            id="rule-set-note"
+            value={note}
+            onChange={(e) => {
+              edit()
+              setNote(e.target.value)
+            }}
+            placeholder="e.g., Raised the meals cap"
+          />
+        </div>
+      </div>
+
+      {(error || problems.length > 0) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error || problems.join('; ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {published !== null && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>Policy rules version {published} published</AlertDescription>
+        </Alert>
+      )}
+
+      {backtest && <PolicyBacktestReport report={backtest} />}
+
+      {rules.map((rule, index) => {
+        const parameter = RULE_KIND_PARAMETER[rule.kind]
+
+        return (
+          <Card key={index} className={rule.enabled ? undefined : 'opacity-60'}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-base flex flex-1 items-center gap-3">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => updateRule(index, { enabled })}
+                    aria-label="Rule enabled"
+                  />
+                  <Input
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                    aria-label="Rule name"
+                    className="max-w-sm"
+                  />
+                  <Input
+                    value={rule.id}
+                    onChange={(e) => updateRule(index, { id: e.target.value })}
+                    aria-label="Rule id"
+                    className="w-44 font-mono text-xs"
+                  />
+                </CardTitle>
+                <Button size="icon" variant="ghost" onClick={() => removeRule(index)} aria-label="Delete rule">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>Check</Label>
+                  <Select value={rule.kind} onValueChange={(value) => changeKind(index, value as PolicyRuleKind)}>
+                    <SelectTrigger aria-label="Check">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RULE_KIND_LABELS) as PolicyRuleKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{RULE_KIND_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Severity</Label>
+                  <Select value={rule.severity} onValueChange={(value) => updateRule(index, { severity: value as PolicySeverity })}>
+                    <SelectTrigger aria-label="Severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="violation">Violation</SelectItem>
+                      <SelectItem value="warning">Warning</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  {parameter === 'amount' && (
+                    <>
+                      <Label htmlFor={`${index}-amount`}>
+                        {rule.kind === 'category_cap' ? 'Limit' : 'Receipts required above'} ({REPORTING_CURRENCY})
+                      </Label>
+                      <Input
+                        id={`${index}-amount`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={rule.amount ?? ''}
+                        onChange={(e) => updateRule(index, { amount: parseNumber(e.target.value) })}
+                      />
+                    </>
+                  )}
+                  {parameter === 'keywords' && (
+                    <>
+                      <Label htmlFor={`${index}-keywords`}>Keywords (comma separated)</Label>
+                      <Input
+                        id={`${index}-keywords`}
+                        value={(rule.keywords ?? []).join(',')}
+                        onChange={(e) => updateRule(index, { keywords: e.target.value.split(',') })}
+                        placeholder="e.g., alcohol, wine"
+                      />
+                    </>
+                  )}
+                  {parameter === 'days' && (
+                    <>
+                      <Label htmlFor={`${index}-days`}>Submit within (days of expense date)</Label>
+                      <Input
+                        id={`${index}-days`}
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={rule.days ?? ''}
+                        onChange={(e) => updateRule(index, { days: parseNumber(e.target.value) })}
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <Label>Categories (none selected = any)</Label>
+                <div className="mt-1.5 grid grid-cols-4 gap-1.5">
+                  {EXPENSE_CATEGORIES.map(category => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rule.categories.includes(category)}
+                        onCheckedChange={(checked) => updateRule(index, {
+                          categories: toggleValue(rule.categories, category, checked === true)
+                        })}
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Published versions</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Effective from</TableHead>
+              <TableHead>Rules</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead>Published</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...ruleSets].reverse().map(ruleSet => (
+              <TableRow key={ruleSet.version}>
+                <TableCell className="font-medium">
+                  {ruleSet.version}
+                  {ruleSet.version === active.version && <Badge variant="secondary" className="ml-2">Active</Badge>}
+                </TableCell>
+                <TableCell>{ruleSet.effectiveFrom}</TableCell>
+                <TableCell>
+                  {ruleSet.rules.filter(rule => rule.enabled).length} of {ruleSet.rules.length} enabled
+                </TableCell>
+                <TableCell className="text-muted-foreground">{ruleSet.note || '—'}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {ruleSet.publishedAt
+                    ? `${ruleSet.publishedBy?.name ?? 'Unknown'} · ${new Date(ruleSet.publishedAt).toLocaleString()}`
+                    : 'Built in'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" onClick={() => loadRuleSet(ruleSet)} aria-label="Edit as new version">
+                      <FileInput className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => downloadRuleSet(ruleSet)} aria-label="Export">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { createContext, useContext, useState, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { FileText, BookOpen } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { findPolicySources, matchPolicyDocument, uniquePolicySources, usePolicyDocuments } from '@/utils/policySources'
+import type { RAGDocument } from '@/utils/ragKnowledgeBase'
+import type { PolicySourceReference } from '@/types'
+
+interface PolicySourceLinksProps {
+  /** References the agent returned */
+  sources?: PolicySourceReference[]
+  /** Text to scan for knowledge-base document names */
+  text?: string
+  className?: string
+}
+
+function describeReference(reference: PolicySourceReference): string {
+  return reference.section ? `${reference.document}, section ${reference.section}` : reference.document
+}
+
+interface PolicySourcesContextValue {
+  documents: RAGDocument[]
+  openSource: (reference: PolicySourceReference) => void
+}
+
+const PolicySourcesContext = createContext<PolicySourcesContextValue | null>(null)
+
+function PolicyDocumentDialog({
+  reference,
+  documents,
+  onClose,
+}: {
+  reference: PolicySourceReference | null
+  documents: RAGDocument[]
+  onClose: () => void
+}) {
+  const match = reference ? matchPolicyDocument(reference, documents) : undefined
+
+  return (
+    <Dialog open={reference !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Expense Policies
+          </DialogTitle>
+          <DialogDescription>
+            {reference && `Cited: ${describeReference(reference)}`}
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-xs text-muted-foreground">
+          The knowledge base only provides document names, so the cited document is highlighted in the list below.
+        </p>
+        <ul className="space-y-2">
+          {documents.map(document => (
+            <li
+              key={document.fileName}
+              className={cn(
+                'flex items-center justify-between gap-2 rounded-md border p-2 text-sm',
+                document === match && 'border-primary bg-primary/5'
+              )}
+            >
+              <span className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                {document.fileName}
+              </span>
+              {document === match && (
+                <Badge variant="secondary">
+                  {reference?.section ? `Section ${reference.section}` : 'Cited'}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Loads the policy document list once and renders the one document dialog
+ * that every PolicySourceLinks below it opens
+ */
+export function PolicySourcesProvider({ children }: { children: ReactNode }) {
+  const { documents } = usePolicyDocuments()
+  const [open, setOpen] = useState<PolicySourceReference | null>(null)
+
+  return (
+    <PolicySourcesContext.Provider value={{ documents, openSource: setOpen }}>
+      {children}
+      <PolicyDocumentDialog reference={open} documents={documents} onClose={() => setOpen(null)} />
+    </PolicySourcesContext.Provider>
+  )
+}
+
+/**
+ * Knowledge-base documents a finding or answer is based on. References to
+ * listed documents open the policy document list at that document. Needs a
+ * PolicySourcesProvider above it.
+ */
+export function PolicySourceLinks({ sources = [], text = '', className }: PolicySourceLinksProps) {
+  const context = useContext(PolicySourcesContext)
+  if (!context) {
+    throw new Error('PolicySourceLinks must be used inside a PolicySourcesProvider')
+  }
+  const { documents, openSource } = context
+
+  const references = uniquePolicySources([...sources, ...findPolicySources(text, documents)])
+  if (references.length === 0) return null
+
+  return (
+    <span className={cn('inline-flex flex-wrap items-center gap-x-2 text-xs', className)}>
+      <span className="opacity-75">Source:</span>
+      {references.map((reference, i) => matchPolicyDocument(reference, documents) ? (
+        <Button
+          key={i}
+          variant="link"
+          className="h-auto p-0 text-xs"
+          onClick={() => openSource(reference)}
+        >
+          <FileText className="h-3 w-3 mr-1" />
+          {describeReference(reference)}
+        </Button>
+      ) : (
+        <span key={i} className="opacity-75" title="Not in the policy knowledge base">
+          {describeReference(reference)}
+        </span>
+      ))}
+    </span>
+  )
+}
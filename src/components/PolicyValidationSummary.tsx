@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+import { PolicySourceLinks } from '@/components/PolicySourceLinks'
+import { UNCLASSIFIED_FINDING_CODE } from '@/utils/policyFindings'
+import type { NormalizedPolicyValidation, PolicyFinding } from '@/types'
+
+interface PolicyValidationSummaryProps {
+  validation: NormalizedPolicyValidation
+  /** Smaller text for table cells */
+  compact?: boolean
+}
+
+function FindingItem({ finding }: { finding: PolicyFinding }) {
+  const details = [
+    finding.code !== UNCLASSIFIED_FINDING_CODE && finding.code !== finding.ruleId ? finding.code : null,
+    finding.ruleId ? `rule ${finding.ruleId}` : null,
+    finding.field ? `field: ${finding.field}` : null,
+    finding.citation ? `see ${finding.citation}` : null,
+  ].filter(Boolean)
+
+  return (
+    <li>
+      {finding.message}
+      {details.length > 0 && (
+        <span className="ml-1 text-xs opacity-75">({details.join(' · ')})</span>
+      )}
+      <PolicySourceLinks
+        sources={finding.source ? [finding.source] : []}
+        text={[finding.message, finding.citation].filter(Boolean).join(' ')}
+        className="ml-2"
+      />
+    </li>
+  )
+}
+
+export function PolicyValidationSummary({ validation, compact = false }: PolicyValidationSummaryProps) {
+  const textSize = compact ? 'text-xs' : 'text-sm'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {validation.is_compliant ? (
+          <Badge variant="default" className="bg-green-600">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Compliant
+          </Badge>
+        ) : (
+          <Badge variant="destructive">
+            <XCircle className="h-3 w-3 mr-1" />
+            Non-Compliant
+          </Badge>
+        )}
+        {validation.approval_required && (
+          <Badge variant="secondary">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Approval Required
+          </Badge>
+        )}
+      </div>
+
+      {validation.violations.length > 0 && (
+        <div className={compact ? 'bg-red-50 p-2 rounded-md border border-red-200' : 'bg-red-50 p-3 rounded-md border border-red-200'}>
+          <p className={`${textSize} font-medium text-red-900 mb-1`}>Violations:</p>
+          <ul className={`list-disc list-inside ${textSize} text-red-800`}>
+            {validation.violations.map((violation, i) => (
+              <FindingItem key={i} finding={violation} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {validation.warnings.length > 0 && (
+        <div className={compact ? 'bg-yellow-50 p-2 rounded-md border border-yellow-200' : 'bg-yellow-50 p-3 rounded-md border border-yellow-200'}>
+          <p className={`${textSize} font-medium text-yellow-900 mb-1`}>Warnings:</p>
+          <ul className={`list-disc list-inside ${textSize} text-yellow-800`}>
+            {validation.warnings.map((warning, i) => (
+              <FindingItem key={i} finding={warning} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -8,6 +8,9 @@
 // Lyzr Agent API endpoint to intercept
 const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
 
+// Same API when routed through the local server proxy (VITE_USE_LYZR_PROXY)
+const LYZR_PROXY_PATH = '/api/lyzr/agent/'
+
 import { isInIframe } from '@/components/ErrorBoundary'
 
 interface ErrorDetails {
@@ -190,7 +193,7 @@ async function interceptedFetch(
   const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
 
   // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
+  if (!url.includes('agent-prod.studio.lyzr.ai') && !url.includes(LYZR_PROXY_PATH)) {
     return originalFetch(input, init)
   }
 
@@ -0,0 +1,147 @@
+/**
+ * ADMIN PAGE - Finance configuration (approval chains, exchange rates, mileage and per diem rates, policy rules)
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CalendarDays, Car, Coins, GitBranch, Settings, ShieldCheck } from 'lucide-react'
+import { AppHeader } from '@/components/AppHeader'
+import { ApprovalChainSettings } from '@/components/ApprovalChainSettings'
+import { ExchangeRateSettings } from '@/components/ExchangeRateSettings'
+import { MileageRateSettings } from '@/components/MileageRateSettings'
+import { PerDiemRateSettings } from '@/components/PerDiemRateSettings'
+import { PolicyRuleSettings } from '@/components/PolicyRuleSettings'
+import { useCurrentUser, isFinanceAdmin } from '@/utils/currentUser'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+export default function Admin() {
+  const { user } = useCurrentUser()
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8">
+        {!isFinanceAdmin(user) ? (
+          <Alert>
+            <Settings className="h-4 w-4" />
+            <AlertDescription>
+              Only finance users and the CFO can change expense configuration.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Tabs defaultValue="approval-chains" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="approval-chains" className="flex items-center gap-2">
+                <GitBranch className="h-4 w-4" />
+                Approval Chains
+              </TabsTrigger>
+              <TabsTrigger value="exchange-rates" className="flex items-center gap-2">
+                <Coins className="h-4 w-4" />
+                Exchange Rates
+              </TabsTrigger>
+              <TabsTrigger value="mileage-rates" className="flex items-center gap-2">
+                <Car className="h-4 w-4" />
+                Mileage Rates
+              </TabsTrigger>
+              <TabsTrigger value="per-diem-rates" className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Per Diem Rates
+              </TabsTrigger>
+              <TabsTrigger value="policy-rules" className="flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                Policy Rules
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="approval-chains">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitBranch className="h-5 w-5" />
+                    Approval Chains
+                  </CardTitle>
+                  <CardDescription>
+                    Route expenses to approvers by amount, category and department
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ApprovalChainSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="exchange-rates">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Coins className="h-5 w-5" />
+                    Exchange Rates
+                  </CardTitle>
+                  <CardDescription>
+                    Convert foreign-currency expenses into {REPORTING_CURRENCY} for reporting and approval limits
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ExchangeRateSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="mileage-rates">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Car className="h-5 w-5" />
+                    Mileage Rates
+                  </CardTitle>
+                  <CardDescription>
+                    Effective-dated reimbursement rates per kilometer or mile, by vehicle type
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MileageRateSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="per-diem-rates">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <CalendarDays className="h-5 w-5" />
+                    Per Diem Rates
+                  </CardTitle>
+                  <CardDescription>
+                    Daily meal and incidental allowances by destination, with deductions for provided meals
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PerDiemRateSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="policy-rules">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    Policy Rules
+                  </CardTitle>
+                  <CardDescription>
+                    Deterministic checks run on every submission, published as effective-dated versions
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PolicyRuleSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  )
+}
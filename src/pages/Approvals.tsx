@@ -0,0 +1,348 @@
+/**
+ * APPROVALS PAGE - Inbox of expenses awaiting the current approver
+ */
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { CheckCircle, XCircle, Undo2, Loader2, Inbox, CheckCheck } from 'lucide-react'
+import { AppHeader } from '@/components/AppHeader'
+import { PolicyValidationSummary } from '@/components/PolicyValidationSummary'
+import { ApprovalChainProgress } from '@/components/ApprovalChainProgress'
+import { useExpenses } from '@/utils/expenseRepository'
+import { useCurrentUser, isApprover, ROLE_LABELS } from '@/utils/currentUser'
+import { getCurrentStep } from '@/utils/approvalChains'
+import { combinedPolicyValidation, getExpenseCategories, isSplit } from '@/utils/expenseSplits'
+import { policyDisagreements } from '@/utils/policyRules'
+import { REPORTING_CURRENCY, formatAmount, formatMoney } from '@/utils/currency'
+import { getReportingAmount } from '@/utils/exchangeRates'
+import {
+  DECISION_LABELS,
+  bulkApprove,
+  decideExpense,
+  getSubmitter,
+  isAwaitingApprover,
+  isBulkApprovable,
+  type ApprovalDecision
+} from '@/utils/approvals'
+import type { StoredExpense } from '@/types'
+
+interface PendingAction {
+  decision: ApprovalDecision
+  expenses: StoredExpense[]
+}
+
+export default function Approvals() {
+  const { user } = useCurrentUser()
+  const { expenses, loading, error } = useExpenses()
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [comment, setComment] = useState('')
+  const [acting, setActing] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const inbox = expenses.filter(expense => isAwaitingApprover(expense, user))
+  const approvable = inbox.filter(isBulkApprovable)
+  const selected = approvable.filter(expense => selectedIds.has(expense.id))
+  const allApprovableSelected = approvable.length > 0 && selected.length === approvable.length
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(approvable.map(expense => expense.id)) : new Set())
+  }
+
+  const openAction = (decision: ApprovalDecision, targets: StoredExpense[]) => {
+    setPendingAction({ decision, expenses: targets })
+    setComment('')
+    setActionError(null)
+  }
+
+  const closeAction = () => {
+    if (acting) return
+    setPendingAction(null)
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingAction || !comment.trim()) return
+
+    setActing(true)
+    setActionError(null)
+
+    try {
+      const { decision, expenses: targets } = pendingAction
+
+      if (targets.length === 1) {
+        const result = await decideExpense(targets[0].id, decision, user, comment)
+        if (!result.success) {
+          setActionError(result.error || 'Action failed')
+          return
+        }
+        const nextStep = result.expense?.status === 'Pending Approval'
+          ? getCurrentStep(result.expense.approvalChain)
+          : null
+        setNotice(nextStep
+          ? `${targets[0].form.vendor}: forwarded to ${ROLE_LABELS[nextStep.role]}`
+          : `${targets[0].form.vendor}: ${result.expense?.status}`
+        )
+      } else {
+        const result = await bulkApprove(targets, user, comment)
+        if (result.failed.length > 0) {
+          setActionError(`${result.failed.length} expense(s) could not be approved: ${result.failed[0].error}`)
+        }
+        setNotice(`Recorded approval on ${result.approved.length} expense(s)`)
+      }
+
+      setSelectedIds(new Set())
+      setPendingAction(null)
+    } finally {
+      setActing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Inbox className="h-5 w-5" />
+                  Approvals Inbox
+                </CardTitle>
+                <CardDescription>
+                  Expenses awaiting a decision from {user.name}
+                </CardDescription>
+              </div>
+              <Button
+                onClick={() => openAction('approve', selected)}
+                disabled={selected.length === 0}
+              >
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Approve selected ({selected.length})
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!isApprover(user) && (
+              <Alert>
+                <AlertDescription>
+                  Switch to a manager, finance or CFO user to review expenses.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {(error || (!pendingAction && actionError)) && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertDescription>{error || actionError}</AlertDescription>
+              </Alert>
+            )}
+
+            {notice && !actionError && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allApprovableSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        disabled={approvable.length === 0}
+                        aria-label="Select all compliant expenses"
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Submitted by</TableHead>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead className="text-right">Amount ({REPORTING_CURRENCY})</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Policy</TableHead>
+                    <TableHead>Approval chain</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin inline mr-2" />
+                        Loading expenses...
+                      </TableCell>
+                    </TableRow>
+                  ) : inbox.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                        Nothing is waiting for your approval
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    inbox.map(expense => (
+                      <TableRow key={expense.id} className="align-top">
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(expense.id)}
+                            onCheckedChange={(checked) => toggleSelected(expense.id, checked === true)}
+                            disabled={!isBulkApprovable(expense)}
+                            aria-label={`Select ${expense.form.vendor}`}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{expense.form.date}</TableCell>
+                        <TableCell>{getSubmitter(expense)?.name || 'Unknown'}</TableCell>
+                        <TableCell>{expense.form.vendor}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatMoney(getReportingAmount(expense))}
+                          {expense.form.currency !== REPORTING_CURRENCY && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatAmount(expense.form.amount, expense.form.currency)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {expense.form.category}
+                          {isSplit(expense.form) && (
+                            <p className="text-xs text-muted-foreground">
+                              Split: {getExpenseCategories(expense.form).join(', ')}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs space-y-1">
+                          <PolicyValidationSummary validation={combinedPolicyValidation(expense)} compact />
+                          {expense.duplicateOverride && (
+                            <Badge
+                              variant="outline"
+                              className="border-amber-500 text-amber-700"
+                              title={expense.duplicateOverride.reason}
+                            >
+                              Possible duplicate
+                            </Badge>
+                          )}
+                          {policyDisagreements(expense).length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="border-amber-500 text-amber-700"
+                              title={policyDisagreements(expense).join('\n')}
+                            >
+                              Agent and rules disagree
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <ApprovalChainProgress chain={expense.approvalChain} />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={() => openAction('approve', [expense])}>
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Approve
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => openAction('return', [expense])}>
+                              <Undo2 className="h-3 w-3 mr-1" />
+                              Return
+                            </Button>
+                            <Button size="sm" variant="destructive" onClick={() => openAction('reject', [expense])}>
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="text-sm text-muted-foreground">
+              {inbox.length} awaiting approval, {approvable.length} compliant
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent>
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {DECISION_LABELS[pendingAction.decision]}
+                  {pendingAction.expenses.length === 1
+                    ? `: ${pendingAction.expenses[0].form.vendor}`
+                    : ` ${pendingAction.expenses.length} expenses`
+                  }
+                </DialogTitle>
+                <DialogDescription>
+                  A comment is required and is recorded in the expense history.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div>
+                <Label htmlFor="decision-comment">Comment</Label>
+                <Textarea
+                  id="decision-comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder={pendingAction.decision === 'return'
+                    ? 'What needs to change before resubmission?'
+                    : 'Reason for this decision'
+                  }
+                  rows={3}
+                  className="mt-1.5"
+                />
+              </div>
+
+              {actionError && (
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" />
+                  <AlertDescription>{actionError}</AlertDescription>
+                </Alert>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={closeAction} disabled={acting}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirm}
+                  disabled={acting || !comment.trim()}
+                  variant={pendingAction.decision === 'reject' ? 'destructive' : 'default'}
+                >
+                  {acting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {DECISION_LABELS[pendingAction.decision]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
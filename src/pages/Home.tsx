@@ -1,13 +1,16 @@
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { useForm, type FieldErrors } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Badge } from '@/components/ui/badge'
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -23,92 +26,251 @@ import {
   DollarSign,
   Calendar,
   FileText,
-  Filter
+  Filter,
+  Pencil,
+  Sparkles,
+  Files,
+  Split,
+  Car,
+  CalendarDays
 } from 'lucide-react'
+import { AppHeader } from '@/components/AppHeader'
+import { PolicyValidationSummary } from '@/components/PolicyValidationSummary'
+import { PolicySourceLinks } from '@/components/PolicySourceLinks'
+import { ExpenseGrid } from '@/components/ExpenseGrid'
+import { ExpenseFiltersBar } from '@/components/ExpenseFiltersBar'
+import { ExpenseDetailSheet } from '@/components/ExpenseDetailSheet'
+import { BatchReceiptSubmission } from '@/components/BatchReceiptSubmission'
+import { MyDraftsList } from '@/components/MyDraftsList'
+import { DuplicateWarningDialog } from '@/components/DuplicateWarningDialog'
+import { ExpenseSplitEditor } from '@/components/ExpenseSplitEditor'
+import { MileageFields } from '@/components/MileageFields'
+import { PerDiemFields } from '@/components/PerDiemFields'
 import { callAIAgent, uploadFiles } from '@/utils/aiAgent'
-import type { NormalizedAgentResponse } from '@/utils/aiAgent'
-
-// AGENT ID from response schema
-const AGENT_ID = "696f6413b50537828e0b1654"
-
-// TypeScript interfaces based on actual test response
-interface ExpenseDetails {
-  vendor: string
-  date: string
-  amount: number
-  currency: string
-  category: string
-  items: string[]
-}
-
-interface PolicyValidation {
-  is_compliant: boolean
-  violations: string[]
-  warnings: string[]
-  approval_required: boolean
-}
-
-interface ExpenseResult {
-  expense_details: ExpenseDetails
-  policy_validation: PolicyValidation
-  answer: string
-  recommendations: string[]
-}
-
-interface ExpenseResponse extends NormalizedAgentResponse {
-  result: ExpenseResult
-}
-
-// Mock expense data for tracking table
-interface TrackedExpense {
-  id: string
-  date: string
-  vendor: string
-  amount: number
-  category: string
-  status: 'Pending Approval' | 'Approved' | 'Rejected'
-}
-
-const EXPENSE_CATEGORIES = [
-  'Travel',
-  'Meals',
-  'Office Supplies',
-  'Software',
-  'Hardware',
-  'Training',
-  'Other'
-]
-
-const MOCK_EXPENSES: TrackedExpense[] = [
-  { id: '1', date: '2024-06-15', vendor: 'ABC Airlines', amount: 450.00, category: 'Travel', status: 'Approved' },
-  { id: '2', date: '2024-06-14', vendor: 'Tech Store', amount: 1200.00, category: 'Hardware', status: 'Pending Approval' },
-  { id: '3', date: '2024-06-13', vendor: 'Coffee Shop', amount: 25.50, category: 'Meals', status: 'Approved' },
-  { id: '4', date: '2024-06-12', vendor: 'Office Depot', amount: 85.00, category: 'Office Supplies', status: 'Approved' },
-  { id: '5', date: '2024-06-10', vendor: 'Luxury Restaurant', amount: 350.00, category: 'Meals', status: 'Rejected' },
-]
+import { EXPENSE_AGENT_ID, validateExpenseSubmission, type ExpenseAgentResponse } from '@/utils/expenseAgent'
+import { getExpenseRepository, useExpenses } from '@/utils/expenseRepository'
+import { resubmitExpense, submitNewExpense } from '@/utils/expenseLifecycle'
+import { getCurrentUser, toActor } from '@/utils/currentUser'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { filterExpenses, useExpenseFilters } from '@/utils/expenseFilters'
+import { submitSavedDraft, useDraftAutosave } from '@/utils/expenseDrafts'
+import { findDuplicateExpenses, hashReceiptFile, type DuplicateMatch } from '@/utils/duplicateDetection'
+import { extractReceiptDetails, formFieldsFromDetails, type ExtractableField } from '@/utils/receiptExtraction'
+import {
+  combinedPolicyValidation,
+  defaultCostCenter,
+  initialSplits,
+  isSplit,
+  primarySplitCategory,
+  validateSplitPolicies
+} from '@/utils/expenseSplits'
+import { CURRENCIES, REPORTING_CURRENCY, amountStep, formatMoney } from '@/utils/currency'
+import { convertToReporting, useExchangeRates } from '@/utils/exchangeRates'
+import { createMileageDetails, useMileageRates, withMileageAmount } from '@/utils/mileage'
+import { createPerDiemDetails, usePerDiemRates, withPerDiemAllowance } from '@/utils/perDiem'
+import { expenseSubmissionSchema } from '@/utils/expenseSchema'
+import { getResultSources } from '@/utils/policySources'
+import { cn } from '@/lib/utils'
+import type {
+  DuplicateOverride,
+  ExpenseFormData,
+  ExpenseSplit,
+  ExpenseType,
+  MileageDetails,
+  PerDiemDetails,
+  PolicySourceReference,
+  SplitValidations,
+  StoredExpense
+} from '@/types'
 
 // Chat message interface
 interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   recommendations?: string[]
+  /** Policy documents the answer cites */
+  sources?: PolicySourceReference[]
 }
 
-// Submit Expense Form Component
-function SubmitExpenseSection() {
+// Marks a form label whose value was filled from the scanned receipt
+function AutoFilledHint({ show }: { show: boolean }) {
+  if (!show) return null
+  return (
+    <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-primary">
+      <Sparkles className="h-3 w-3" />
+      Auto-filled
+    </span>
+  )
+}
+
+// Inline error for a part of the form that isn't a single input
+function SectionError({ errors, fields }: { errors: FieldErrors; fields: string[] }) {
+  const message = fields.map(field => errors[field]?.message).find(Boolean)
+  if (!message) return null
+  return <p className="text-sm font-medium text-destructive">{String(message)}</p>
+}
+
+// Submit Expense Form Component. With `editingExpense` set, the form is
+// pre-filled from that expense: a returned or rejected expense is resubmitted
+// as a new version, a draft is resumed. New expenses and drafts autosave.
+function SubmitExpenseSection({
+  editingExpense = null,
+  onFinishEditing,
+  onResumeDraft
+}: {
+  editingExpense?: StoredExpense | null
+  onFinishEditing?: () => void
+  onResumeDraft?: (draft: StoredExpense) => void
+}) {
+  const isResubmission = editingExpense !== null && editingExpense.status !== 'Draft'
+  const resumedDraft = editingExpense?.status === 'Draft' ? editingExpense : null
+
   const [receiptFile, setReceiptFile] = useState<File | null>(null)
-  const [uploadedAssets, setUploadedAssets] = useState<string[]>([])
-  const [formData, setFormData] = useState({
+  const [uploadedAssets, setUploadedAssets] = useState<string[]>(editingExpense?.receiptAssetIds ?? [])
+  const [formData, setFormData] = useState<ExpenseFormData>(editingExpense?.form ?? {
     vendor: '',
     date: '',
     amount: '',
+    currency: REPORTING_CURRENCY,
     category: '',
     description: ''
   })
   const [submitting, setSubmitting] = useState(false)
   const [uploading, setUploading] = useState(false)
-  const [response, setResponse] = useState<ExpenseResponse | null>(null)
+  const [response, setResponse] = useState<ExpenseAgentResponse | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState<StoredExpense | null>(null)
+  const [extracting, setExtracting] = useState(false)
+  const [autoFilled, setAutoFilled] = useState<ExtractableField[]>([])
+  const [extractionNote, setExtractionNote] = useState<string | null>(null)
+  const [receiptHash, setReceiptHash] = useState<string | undefined>(editingExpense?.receiptHash)
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([])
+  const [duplicateReason, setDuplicateReason] = useState('')
+  const [receiptItems, setReceiptItems] = useState<string[]>(editingExpense?.result?.expense_details.items ?? [])
+  const [splitValidations, setSplitValidations] = useState<SplitValidations | undefined>(undefined)
+
+  // Latest values for the receipt scan, which resolves after the user may
+  // have kept typing
+  const latestForm = useRef(formData)
+  latestForm.current = formData
+  const latestAutoFilled = useRef(autoFilled)
+  latestAutoFilled.current = autoFilled
+
+  const costCenter = defaultCostCenter(getCurrentUser().department)
+  const { table: exchangeRates } = useExchangeRates()
+  const { rates: mileageRates } = useMileageRates()
+  const { rates: perDiemRates } = usePerDiemRates()
+  const isMileage = formData.type === 'mileage'
+  const isPerDiem = formData.type === 'per_diem'
+  const conversionPreview = formData.amount && formData.currency !== REPORTING_CURRENCY
+    ? convertToReporting(parseFloat(formData.amount) || 0, formData.currency, exchangeRates)
+    : null
+
+  const receiptFileName = receiptFile ? receiptFile.name : editingExpense?.receiptFileName
+
+  // formData stays the source of truth; the form mirrors it so the schema
+  // can report errors next to each field
+  const submissionForm = useForm<ExpenseFormData>({
+    resolver: zodResolver(expenseSubmissionSchema({ hasReceipt: uploadedAssets.length > 0 })),
+    values: formData,
+    resetOptions: { keepErrors: true, keepIsSubmitted: true },
+  })
+  const { errors, isSubmitted } = submissionForm.formState
+
+  // Once the user has tried to submit, keep the errors in step with edits
+  useEffect(() => {
+    if (isSubmitted) submissionForm.trigger()
+  }, [formData, uploadedAssets, isSubmitted, submissionForm])
+
+  const draftInput = useMemo(
+    () => isResubmission ? null : { form: formData, receiptAssetIds: uploadedAssets, receiptFileName, receiptHash },
+    [isResubmission, formData, uploadedAssets, receiptFileName, receiptHash]
+  )
+  const autosave = useDraftAutosave(draftInput, resumedDraft?.id ?? null)
+
+  // Keep the uploaded receipt file with the draft so resuming doesn't need
+  // another upload
+  const receiptStoredFor = useRef<string | null>(null)
+  useEffect(() => {
+    if (!autosave.draftId || !receiptFile) return
+    const key = `${autosave.draftId}:${receiptFile.name}:${receiptFile.lastModified}`
+    if (receiptStoredFor.current === key) return
+    receiptStoredFor.current = key
+    getExpenseRepository().saveReceipt(autosave.draftId, receiptFile)
+  }, [autosave.draftId, receiptFile])
+
+  // Mileage and per diem expenses derive vendor, category and amount from the trip
+  const withDerivedFields = (form: ExpenseFormData) => {
+    if (form.type === 'mileage') return withMileageAmount(form, mileageRates)
+    if (form.type === 'per_diem') return withPerDiemAllowance(form, perDiemRates)
+    return form
+  }
+
+  const updateField = (field: keyof ExpenseFormData, value: string) => {
+    setFormData(prev => withDerivedFields({ ...prev, [field]: value }))
+    setAutoFilled(prev => prev.filter(f => f !== field))
+  }
+
+  const updateMileage = (changes: Partial<MileageDetails>) => {
+    setFormData(prev => withDerivedFields({ ...prev, mileage: { ...(prev.mileage ?? createMileageDetails()), ...changes } }))
+  }
+
+  const updatePerDiem = (changes: Partial<PerDiemDetails>) => {
+    setFormData(prev => withDerivedFields({ ...prev, perDiem: { ...(prev.perDiem ?? createPerDiemDetails()), ...changes } }))
+  }
+
+  const changeExpenseType = (type: ExpenseType) => {
+    setAutoFilled([])
+    setFormData(prev => {
+      const trip = { ...prev, type, mileage: undefined, perDiem: undefined, splits: undefined }
+      if (type === 'mileage') return withDerivedFields({ ...trip, mileage: prev.mileage ?? createMileageDetails() })
+      if (type === 'per_diem') return withDerivedFields({ ...trip, perDiem: prev.perDiem ?? createPerDiemDetails() })
+      return { ...prev, type: undefined, mileage: undefined, perDiem: undefined, vendor: '', amount: '', category: '' }
+    })
+  }
+
+  // The expense category follows the largest split while the receipt is split
+  const updateSplits = (splits: ExpenseSplit[] | undefined) => {
+    setFormData(prev => ({
+      ...prev,
+      splits,
+      category: splits ? primarySplitCategory(splits) || prev.category : prev.category
+    }))
+    setAutoFilled(prev => prev.filter(f => f !== 'category'))
+  }
+
+  const autoFillClass = (field: ExtractableField) =>
+    autoFilled.includes(field) ? 'border-primary bg-primary/5' : undefined
+
+  // Fill empty or previously auto-filled fields from the receipt; anything
+  // the user typed is left alone
+  const scanReceipt = async (assetIds: string[]) => {
+    setExtracting(true)
+    setExtractionNote(null)
+
+    try {
+      const extraction = await extractReceiptDetails(assetIds)
+      if (!extraction.success) {
+        setExtractionNote(`Could not read the receipt (${extraction.error}). Enter the details manually.`)
+        return
+      }
+
+      setReceiptItems(extraction.data!.items ?? [])
+      const fields = formFieldsFromDetails(extraction.data!)
+      const fillable = (form: ExpenseFormData) => (Object.keys(fields) as ExtractableField[])
+        .filter(field => !form[field] || latestAutoFilled.current.includes(field))
+      const filled = fillable(latestForm.current)
+
+      setFormData(prev => fillable(prev).reduce((next, field) => ({ ...next, [field]: fields[field] }), prev))
+      setAutoFilled(prev => [...prev.filter(field => !filled.includes(field)), ...filled])
+      setExtractionNote(filled.length > 0
+        ? `Filled ${filled.length} field${filled.length === 1 ? '' : 's'} from the receipt. Review them before submitting.`
+        : 'Nothing new was read from the receipt.'
+      )
+    } finally {
+      setExtracting(false)
+    }
+  }
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -117,11 +279,14 @@ function SubmitExpenseSection() {
     setReceiptFile(file)
     setUploading(true)
     setError(null)
+    hashReceiptFile(file).then(setReceiptHash, () => setReceiptHash(undefined))
 
     try {
       const uploadResult = await uploadFiles(file)
       if (uploadResult.success) {
         setUploadedAssets(uploadResult.asset_ids)
+        setUploading(false)
+        await scanReceipt(uploadResult.asset_ids)
       } else {
         setError(uploadResult.error || 'Upload failed')
       }
@@ -132,32 +297,88 @@ function SubmitExpenseSection() {
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setSubmitting(true)
+  // Warn before filing something that matches an existing expense; the
+  // agent is only called once the user cancels or gives a reason
+  const handleSubmit = async () => {
     setError(null)
     setResponse(null)
 
+    if (conversionPreview && !conversionPreview.success) {
+      setError(conversionPreview.error)
+      return
+    }
+
+    const listed = await getExpenseRepository().list()
+    const matches = listed.success
+      ? findDuplicateExpenses({ id: editingExpense?.id, form: formData, receiptHash }, listed.data!)
+      : []
+
+    if (matches.length > 0) {
+      setDuplicateReason('')
+      setDuplicateMatches(matches)
+      return
+    }
+    await submitExpense()
+  }
+
+  const handleSubmitDuplicate = async () => {
+    const duplicateOverride: DuplicateOverride = {
+      matchedExpenseIds: duplicateMatches.map(match => match.expense.id),
+      reason: duplicateReason.trim(),
+      actor: toActor(getCurrentUser()),
+      at: new Date().toISOString()
+    }
+    setDuplicateMatches([])
+    await submitExpense(duplicateOverride)
+  }
+
+  const submitExpense = async (duplicateOverride?: DuplicateOverride) => {
+    setSubmitting(true)
+
     try {
-      // Construct message with expense details
-      const message = `Process expense submission:
-Vendor: ${formData.vendor}
-Date: ${formData.date}
-Amount: ${formData.amount}
-Category: ${formData.category}
-Description: ${formData.description}
-${uploadedAssets.length > 0 ? 'Receipt attached.' : 'No receipt attached.'}`
-
-      const result = await callAIAgent(
-        message,
-        AGENT_ID,
-        uploadedAssets.length > 0 ? { assets: uploadedAssets } : undefined
-      )
+      const draftId = isResubmission ? null : await autosave.flush()
+      const [validation, splitCheck] = await Promise.all([
+        validateExpenseSubmission(formData, uploadedAssets),
+        isSplit(formData) ? validateSplitPolicies(formData, uploadedAssets) : null
+      ])
 
-      if (result.success && result.response.status === 'success') {
-        setResponse(result.response as ExpenseResponse)
+      if (splitCheck && !splitCheck.success) {
+        setError(splitCheck.error || 'Splits could not be checked against policy')
+      } else if (validation.success) {
+        const expenseResponse = validation.response!
+        setResponse(expenseResponse)
+        setSplitValidations(splitCheck?.data)
+
+        const currentUser = getCurrentUser()
+        const submission = {
+          form: formData,
+          receiptAssetIds: uploadedAssets,
+          receiptFileName,
+          receiptHash,
+          result: expenseResponse.result,
+          splitValidations: splitCheck?.data,
+          payloadVersion: validation.payloadVersion,
+          duplicateOverride
+        }
+        const saveResult = isResubmission
+          ? await resubmitExpense(editingExpense, submission, toActor(currentUser))
+          : draftId
+            ? await submitSavedDraft(draftId, submission, toActor(currentUser))
+            : await submitNewExpense({ ...submission, department: currentUser.department }, toActor(currentUser))
+        if (saveResult.success) {
+          setSubmitted(saveResult.expense!)
+          autosave.detach()
+        }
+        if (!saveResult.success) {
+          setError(saveResult.error || 'Expense was processed but could not be saved')
+        } else if (receiptFile) {
+          const receiptResult = await getExpenseRepository().saveReceipt(saveResult.expense!.id, receiptFile)
+          if (!receiptResult.success) {
+            setError(receiptResult.error || 'Expense was saved but the receipt file could not be stored')
+          }
+        }
       } else {
-        setError(result.response.message || 'Submission failed')
+        setError(validation.error || 'Submission failed')
       }
     } catch (err) {
       setError('Network error during submission')
@@ -168,114 +389,329 @@ ${uploadedAssets.length > 0 ? 'Receipt attached.' : 'No receipt attached.'}`
 
   return (
     <div className="space-y-6">
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <Label htmlFor="receipt" className="text-sm font-medium">
-            Upload Receipt (Image/PDF)
-          </Label>
-          <div className="mt-1.5">
-            <Input
-              id="receipt"
-              type="file"
-              accept="image/*,.pdf"
-              onChange={handleFileChange}
-              disabled={uploading || submitting}
-              className="cursor-pointer"
-            />
-            {uploading && (
-              <p className="text-sm text-muted-foreground mt-1.5 flex items-center gap-2">
-                <Loader2 className="h-3 w-3 animate-spin" />
-                Uploading receipt...
-              </p>
-            )}
-            {receiptFile && !uploading && (
-              <p className="text-sm text-green-600 mt-1.5 flex items-center gap-2">
-                <CheckCircle className="h-3 w-3" />
-                {receiptFile.name} uploaded
-              </p>
-            )}
-          </div>
-        </div>
-
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <Label htmlFor="vendor">Vendor</Label>
-            <Input
-              id="vendor"
-              value={formData.vendor}
-              onChange={(e) => setFormData(prev => ({ ...prev, vendor: e.target.value }))}
-              placeholder="e.g., ABC Cafe"
-              required
-            />
-          </div>
-          <div>
-            <Label htmlFor="date">Date</Label>
-            <Input
-              id="date"
-              type="date"
-              value={formData.date}
-              onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
-              required
-            />
-          </div>
-        </div>
-
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <Label htmlFor="amount">Amount ($)</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              value={formData.amount}
-              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-              placeholder="0.00"
-              required
-            />
-          </div>
-          <div>
-            <Label htmlFor="category">Category</Label>
-            <Select
-              value={formData.category}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, category: value }))}
-            >
-              <SelectTrigger id="category">
-                <SelectValue placeholder="Select category" />
-              </SelectTrigger>
-              <SelectContent>
-                {EXPENSE_CATEGORIES.map(cat => (
-                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
-
-        <div>
-          <Label htmlFor="description">Description</Label>
-          <Textarea
-            id="description"
-            value={formData.description}
-            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-            placeholder="Brief description of the expense"
-            rows={3}
-          />
-        </div>
+      {isResubmission && (
+        <Alert>
+          <Pencil className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              {submitted
+                ? `${submitted.form.vendor} was resubmitted as version ${submitted.versions.length}`
+                : `Editing ${editingExpense.form.vendor} (${editingExpense.status}). Saving creates version ${editingExpense.versions.length + 1}.`
+              }
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={onFinishEditing} disabled={submitting}>
+              {submitted ? 'Done' : 'Cancel'}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {resumedDraft && (
+        <Alert>
+          <FileText className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              {submitted
+                ? 'Draft submitted'
+                : `Resuming a draft started ${new Date(resumedDraft.createdAt).toLocaleString()}. Changes are saved automatically.`
+              }
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={onFinishEditing} disabled={submitting}>
+              {submitted ? 'Done' : 'Start new'}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <DuplicateWarningDialog
+        matches={duplicateMatches}
+        reason={duplicateReason}
+        onReasonChange={setDuplicateReason}
+        onCancel={() => setDuplicateMatches([])}
+        onConfirm={handleSubmitDuplicate}
+      />
+
+      {!isResubmission && onResumeDraft && (
+        <MyDraftsList activeDraftId={autosave.draftId} onResume={onResumeDraft} />
+      )}
+
+      <Form {...submissionForm}>
+        <form
+          onSubmit={submissionForm.handleSubmit(handleSubmit, () => setError(null))}
+          className="space-y-4"
+          noValidate
+        >
+          <ToggleGroup
+            type="single"
+            value={formData.type ?? 'receipt'}
+            onValueChange={(value) => value && changeExpenseType(value as ExpenseType)}
+            className="justify-start"
+            disabled={submitting}
+          >
+            <ToggleGroupItem value="receipt" aria-label="Receipt expense">
+              <Receipt className="h-4 w-4 mr-2" />
+              Receipt
+            </ToggleGroupItem>
+            <ToggleGroupItem value="mileage" aria-label="Mileage expense">
+              <Car className="h-4 w-4 mr-2" />
+              Mileage
+            </ToggleGroupItem>
+            <ToggleGroupItem value="per_diem" aria-label="Per diem expense">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Per diem
+            </ToggleGroupItem>
+          </ToggleGroup>
 
-        <Button type="submit" disabled={submitting || uploading} className="w-full">
-          {submitting ? (
+          {isMileage ? (
+            <>
+              <MileageFields
+                form={formData}
+                onDateChange={(date) => updateField('date', date)}
+                onChange={updateMileage}
+              />
+              <SectionError errors={errors} fields={['date', 'mileage']} />
+            </>
+          ) : isPerDiem ? (
             <>
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              Submitting...
+              <PerDiemFields form={formData} rates={perDiemRates} onChange={updatePerDiem} />
+              <SectionError errors={errors} fields={['date', 'perDiem']} />
             </>
           ) : (
             <>
-              <Send className="h-4 w-4 mr-2" />
-              Submit Expense
+              <div>
+                <Label htmlFor="receipt" className="text-sm font-medium">
+                  Upload Receipt (Image/PDF)
+                </Label>
+                <div className="mt-1.5">
+                  <Input
+                    id="receipt"
+                    type="file"
+                    accept="image/*,.pdf"
+                    onChange={handleFileChange}
+                    disabled={uploading || extracting || submitting}
+                    className="cursor-pointer"
+                  />
+                  {uploading && (
+                    <p className="text-sm text-muted-foreground mt-1.5 flex items-center gap-2">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Uploading receipt...
+                    </p>
+                  )}
+                  {receiptFile && !uploading && (
+                    <p className="text-sm text-green-600 mt-1.5 flex items-center gap-2">
+                      <CheckCircle className="h-3 w-3" />
+                      {receiptFile.name} uploaded
+                    </p>
+                  )}
+                  {extracting && (
+                    <p className="text-sm text-muted-foreground mt-1.5 flex items-center gap-2">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Scanning receipt...
+                    </p>
+                  )}
+                  {extractionNote && !extracting && (
+                    <p className="text-sm text-muted-foreground mt-1.5 flex items-center gap-2">
+                      <Sparkles className="h-3 w-3" />
+                      {extractionNote}
+                    </p>
+                  )}
+                  {!receiptFile && editingExpense?.receiptFileName && (
+                    <p className="text-sm text-muted-foreground mt-1.5 flex items-center gap-2">
+                      <FileText className="h-3 w-3" />
+                      Keeping {editingExpense.receiptFileName}. Upload a file to replace it.
+                    </p>
+                  )}
+                  <SectionError errors={errors} fields={['receipt']} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={submissionForm.control}
+                  name="vendor"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel>Vendor<AutoFilledHint show={autoFilled.includes('vendor')} /></FormLabel>
+                      <FormControl>
+                        <Input
+                          ref={field.ref}
+                          value={formData.vendor}
+                          onChange={(e) => updateField('vendor', e.target.value)}
+                          className={autoFillClass('vendor')}
+                          placeholder="e.g., ABC Cafe"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={submissionForm.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel>Date<AutoFilledHint show={autoFilled.includes('date')} /></FormLabel>
+                      <FormControl>
+                        <Input
+                          ref={field.ref}
+                          type="date"
+                          value={formData.date}
+                          onChange={(e) => updateField('date', e.target.value)}
+                          className={autoFillClass('date')}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={submissionForm.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel>
+                        Amount<AutoFilledHint show={autoFilled.includes('amount') || autoFilled.includes('currency')} />
+                      </FormLabel>
+                      <div className="flex gap-2">
+                        <FormControl>
+                          <Input
+                            ref={field.ref}
+                            type="number"
+                            step={amountStep(formData.currency)}
+                            value={formData.amount}
+                            onChange={(e) => updateField('amount', e.target.value)}
+                            className={autoFillClass('amount')}
+                            placeholder="0.00"
+                          />
+                        </FormControl>
+                        <Select
+                          value={formData.currency}
+                          onValueChange={(value) => updateField('currency', value)}
+                        >
+                          <SelectTrigger aria-label="Currency" className={cn('w-24', autoFillClass('currency'))}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CURRENCIES.map(currency => (
+                              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <FormMessage />
+                      {conversionPreview && (
+                        <p className={`text-xs mt-1.5 ${conversionPreview.success ? 'text-muted-foreground' : 'text-destructive'}`}>
+                          {conversionPreview.success
+                            ? `≈ ${formatMoney(conversionPreview.conversion!.amount)} at rates as of ${conversionPreview.conversion!.ratesAsOf}`
+                            : conversionPreview.error
+                          }
+                        </p>
+                      )}
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={submissionForm.control}
+                  name="category"
+                  render={() => (
+                    <FormItem className="space-y-0">
+                      <FormLabel>Category<AutoFilledHint show={autoFilled.includes('category')} /></FormLabel>
+                      <Select
+                        value={formData.category}
+                        onValueChange={(value) => updateField('category', value)}
+                        disabled={isSplit(formData)}
+                      >
+                        <FormControl>
+                          <SelectTrigger className={autoFillClass('category')}>
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {EXPENSE_CATEGORIES.map(cat => (
+                            <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {isSplit(formData) ? (
+                <ExpenseSplitEditor
+                  form={formData}
+                  defaultCostCenter={costCenter}
+                  onChange={updateSplits}
+                  onRemoveSplit={() => updateSplits(undefined)}
+                  disabled={submitting}
+                />
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateSplits(initialSplits(formData, receiptItems, costCenter))}
+                  disabled={submitting || !formData.amount}
+                >
+                  <Split className="h-4 w-4 mr-2" />
+                  Split across categories
+                </Button>
+              )}
+              <SectionError errors={errors} fields={['splits']} />
             </>
           )}
-        </Button>
-      </form>
+
+          <FormField
+            control={submissionForm.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem className="space-y-0">
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea
+                    ref={field.ref}
+                    value={formData.description}
+                    onChange={(e) => updateField('description', e.target.value)}
+                    placeholder="Brief description of the expense"
+                    rows={3}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button
+            type="submit"
+            disabled={submitting || uploading || extracting || (editingExpense !== null && submitted !== null)}
+            className="w-full"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                {isResubmission ? 'Resubmit Expense' : 'Submit Expense'}
+              </>
+            )}
+          </Button>
+
+          {!isResubmission && autosave.status !== 'idle' && (
+            <p className={`text-xs text-center ${autosave.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {autosave.status === 'saving' && 'Saving draft...'}
+              {autosave.status === 'saved' && `Draft saved at ${new Date(autosave.savedAt).toLocaleTimeString()}`}
+              {autosave.status === 'error' && autosave.error}
+            </p>
+          )}
+        </form>
+      </Form>
 
       {error && (
         <Alert variant="destructive">
@@ -314,7 +750,7 @@ ${uploadedAssets.length > 0 ? 'Receipt attached.' : 'No receipt attached.'}`
                 <div>
                   <span className="text-muted-foreground">Amount:</span>
                   <p className="font-medium">
-                    {response.result.expense_details.currency} ${response.result.expense_details.amount.toFixed(2)}
+                    {formatMoney(response.result.expense_details.amount, response.result.expense_details.currency)}
                   </p>
                 </div>
                 <div>
@@ -339,49 +775,10 @@ ${uploadedAssets.length > 0 ? 'Receipt attached.' : 'No receipt attached.'}`
             {/* Policy Validation */}
             <div>
               <h3 className="font-semibold text-sm mb-2">Policy Validation</h3>
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  {response.result.policy_validation.is_compliant ? (
-                    <Badge variant="default" className="bg-green-600">
-                      <CheckCircle className="h-3 w-3 mr-1" />
-                      Compliant
-                    </Badge>
-                  ) : (
-                    <Badge variant="destructive">
-                      <XCircle className="h-3 w-3 mr-1" />
-                      Non-Compliant
-                    </Badge>
-                  )}
-                  {response.result.policy_validation.approval_required && (
-                    <Badge variant="secondary">
-                      <AlertTriangle className="h-3 w-3 mr-1" />
-                      Approval Required
-                    </Badge>
-                  )}
-                </div>
-
-                {response.result.policy_validation.violations.length > 0 && (
-                  <div className="bg-red-50 p-3 rounded-md border border-red-200">
-                    <p className="text-sm font-medium text-red-900 mb-1">Violations:</p>
-                    <ul className="list-disc list-inside text-sm text-red-800">
-                      {response.result.policy_validation.violations.map((violation, i) => (
-                        <li key={i}>{String(violation)}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-
-                {response.result.policy_validation.warnings.length > 0 && (
-                  <div className="bg-yellow-50 p-3 rounded-md border border-yellow-200">
-                    <p className="text-sm font-medium text-yellow-900 mb-1">Warnings:</p>
-                    <ul className="list-disc list-inside text-sm text-yellow-800">
-                      {response.result.policy_validation.warnings.map((warning, i) => (
-                        <li key={i}>{String(warning)}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-              </div>
+              <PolicyValidationSummary
+                validation={combinedPolicyValidation(submitted ?? { form: formData, result: response.result, splitValidations })}
+              />
+              <PolicySourceLinks sources={getResultSources(response.result)} text={response.result.answer} className="mt-2" />
             </div>
 
             {/* Recommendations */}
@@ -409,99 +806,57 @@ ${uploadedAssets.length > 0 ? 'Receipt attached.' : 'No receipt attached.'}`
 }
 
 // Expense Tracking Component
-function ExpenseTrackingSection() {
-  const [expenses, setExpenses] = useState<TrackedExpense[]>(MOCK_EXPENSES)
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [categoryFilter, setCategoryFilter] = useState<string>('all')
-
-  const filteredExpenses = expenses.filter(expense => {
-    const matchesStatus = statusFilter === 'all' || expense.status === statusFilter
-    const matchesCategory = categoryFilter === 'all' || expense.category === categoryFilter
-    return matchesStatus && matchesCategory
-  })
+function ExpenseTrackingSection({ onEditExpense }: { onEditExpense: (expense: StoredExpense) => void }) {
+  const { expenses, loading, error } = useExpenses()
+  const { filters, setFilters, resetFilters } = useExpenseFilters()
+  const { table: rates } = useExchangeRates()
+  // Drafts are unfinished and private to their author; they are listed under My drafts
+  const storedExpenses = useMemo(
+    () => expenses.filter(expense => expense.status !== 'Draft'),
+    [expenses]
+  )
+  const [selectedExpenseId, setSelectedExpenseId] = useState<string | null>(null)
 
-  const getStatusBadge = (status: TrackedExpense['status']) => {
-    switch (status) {
-      case 'Approved':
-        return <Badge variant="default" className="bg-green-600">Approved</Badge>
-      case 'Rejected':
-        return <Badge variant="destructive">Rejected</Badge>
-      case 'Pending Approval':
-        return <Badge variant="secondary">Pending Approval</Badge>
-    }
-  }
+  const selectedExpense = storedExpenses.find(expense => expense.id === selectedExpenseId) ?? null
+
+  const filteredExpenses = useMemo(
+    () => filterExpenses(storedExpenses, filters, rates),
+    [storedExpenses, filters, rates]
+  )
 
   return (
     <div className="space-y-4">
-      <div className="flex gap-4 items-end">
-        <div className="flex-1">
-          <Label htmlFor="status-filter" className="text-sm">Filter by Status</Label>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger id="status-filter" className="mt-1.5">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="Approved">Approved</SelectItem>
-              <SelectItem value="Pending Approval">Pending Approval</SelectItem>
-              <SelectItem value="Rejected">Rejected</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        <div className="flex-1">
-          <Label htmlFor="category-filter" className="text-sm">Filter by Category</Label>
-          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-            <SelectTrigger id="category-filter" className="mt-1.5">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Categories</SelectItem>
-              {EXPENSE_CATEGORIES.map(cat => (
-                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-      </div>
+      <ExpenseFiltersBar filters={filters} onChange={setFilters} onReset={resetFilters} />
 
-      <div className="rounded-md border">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Date</TableHead>
-              <TableHead>Vendor</TableHead>
-              <TableHead className="text-right">Amount</TableHead>
-              <TableHead>Category</TableHead>
-              <TableHead>Status</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {filteredExpenses.length === 0 ? (
-              <TableRow>
-                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
-                  No expenses found matching the selected filters
-                </TableCell>
-              </TableRow>
-            ) : (
-              filteredExpenses.map((expense) => (
-                <TableRow key={expense.id}>
-                  <TableCell className="font-medium">{expense.date}</TableCell>
-                  <TableCell>{expense.vendor}</TableCell>
-                  <TableCell className="text-right font-mono">
-                    ${expense.amount.toFixed(2)}
-                  </TableCell>
-                  <TableCell>{expense.category}</TableCell>
-                  <TableCell>{getStatusBadge(expense.status)}</TableCell>
-                </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-      </div>
+      {error && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <ExpenseGrid
+        expenses={filteredExpenses}
+        loading={loading}
+        emptyMessage={storedExpenses.length === 0
+          ? 'No expenses submitted yet'
+          : 'No expenses found matching the selected filters'
+        }
+        onRowClick={(expense) => setSelectedExpenseId(expense.id)}
+      />
 
       <div className="text-sm text-muted-foreground">
-        Showing {filteredExpenses.length} of {expenses.length} expenses
+        Showing {filteredExpenses.length} of {storedExpenses.length} expenses
       </div>
+
+      <ExpenseDetailSheet
+        expense={selectedExpense}
+        onOpenChange={(open) => !open && setSelectedExpenseId(null)}
+        onEdit={(expense) => {
+          setSelectedExpenseId(null)
+          onEditExpense(expense)
+        }}
+      />
     </div>
   )
 }
@@ -530,13 +885,14 @@ function PolicyChatSection() {
     setQuestion('')
 
     try {
-      const result = await callAIAgent(currentQuestion, AGENT_ID)
+      const result = await callAIAgent(currentQuestion, EXPENSE_AGENT_ID)
 
       if (result.success && result.response.status === 'success') {
         const assistantMessage: ChatMessage = {
           role: 'assistant',
           content: result.response.result.answer || result.response.message || 'No answer provided',
-          recommendations: result.response.result.recommendations || []
+          recommendations: result.response.result.recommendations || [],
+          sources: getResultSources(result.response.result)
         }
         setMessages(prev => [...prev, assistantMessage])
       } else {
@@ -576,6 +932,9 @@ function PolicyChatSection() {
                     : 'bg-muted'
                 }`}>
                   <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  {msg.role === 'assistant' && (
+                    <PolicySourceLinks sources={msg.sources} text={msg.content} className="mt-2" />
+                  )}
                   {msg.recommendations && msg.recommendations.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-border/50">
                       <p className="text-xs font-medium mb-1.5">Recommendations:</p>
@@ -632,29 +991,50 @@ function PolicyChatSection() {
 
 // Main Home Component
 export default function Home() {
+  // The active tab lives in the URL so shared filter links open on tracking
+  const [searchParams, setSearchParams] = useSearchParams()
+  const activeTab = searchParams.get('tab') || 'submit'
+
+  const setActiveTab = (tab: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (tab === 'submit') {
+        next.delete('tab')
+      } else {
+        next.set('tab', tab)
+      }
+      return next
+    }, { replace: true })
+  }
+  const [editingExpense, setEditingExpense] = useState<StoredExpense | null>(null)
+
+  const startEditing = (expense: StoredExpense) => {
+    setEditingExpense(expense)
+    setActiveTab('submit')
+  }
+
+  const finishEditing = () => {
+    const wasDraft = editingExpense?.status === 'Draft'
+    setEditingExpense(null)
+    if (!wasDraft) setActiveTab('tracking')
+  }
+
   return (
     <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b bg-card">
-        <div className="container mx-auto px-6 py-4">
-          <div className="flex items-center gap-3">
-            <Receipt className="h-8 w-8 text-primary" />
-            <div>
-              <h1 className="text-2xl font-bold">ExpenseFlow</h1>
-              <p className="text-sm text-muted-foreground">Smart Expense Management System</p>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
-        <Tabs defaultValue="submit" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-2xl">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-4 max-w-3xl">
             <TabsTrigger value="submit" className="flex items-center gap-2">
               <Upload className="h-4 w-4" />
               Submit Expense
             </TabsTrigger>
+            <TabsTrigger value="batch" className="flex items-center gap-2">
+              <Files className="h-4 w-4" />
+              Batch Receipts
+            </TabsTrigger>
             <TabsTrigger value="tracking" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               Expense Tracking
@@ -670,14 +1050,42 @@ export default function Home() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <DollarSign className="h-5 w-5" />
-                  Submit New Expense
+                  {!editingExpense
+                    ? 'Submit New Expense'
+                    : editingExpense.status === 'Draft' ? 'Resume Draft' : 'Edit & Resubmit Expense'
+                  }
+                </CardTitle>
+                <CardDescription>
+                  {editingExpense && editingExpense.status !== 'Draft'
+                    ? 'Correct the expense details; it will be validated again and sent for approval'
+                    : 'Upload your receipt and enter expense details for processing'
+                  }
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SubmitExpenseSection
+                  key={editingExpense?.id ?? 'new'}
+                  editingExpense={editingExpense}
+                  onFinishEditing={finishEditing}
+                  onResumeDraft={startEditing}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="batch">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Files className="h-5 w-5" />
+                  Batch Receipts
                 </CardTitle>
                 <CardDescription>
-                  Upload your receipt and enter expense details for processing
+                  Upload several receipts at once, review what was read from each, then submit them together
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <SubmitExpenseSection />
+                <BatchReceiptSubmission />
               </CardContent>
             </Card>
           </TabsContent>
@@ -694,7 +1102,7 @@ export default function Home() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <ExpenseTrackingSection />
+                <ExpenseTrackingSection onEditExpense={startEditing} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,412 @@
+// =============================================================================
+// Expense Domain Types
+// =============================================================================
+
+import type { UserRole } from './index'
+
+/**
+ * Expense details extracted by the Expense Assistant Agent.
+ * Mirrors response_schemas/expense_assistant_agent_response.json
+ */
+export interface ExpenseDetails {
+  vendor: string
+  date: string
+  amount: number
+  currency: string
+  category: string
+  items: string[]
+}
+
+/**
+ * Policy validation verdict returned by the agent. The response schema
+ * types violations and warnings as `any`: they arrive as strings or as
+ * objects of whatever shape the agent chose, so read them through
+ * normalizePolicyValidation (utils/policyFindings).
+ */
+export interface PolicyValidation {
+  is_compliant: boolean
+  violations: unknown[]
+  warnings: unknown[]
+  approval_required: boolean
+}
+
+/**
+ * One policy violation or warning, from the agent or a policy rule
+ */
+export interface PolicyFinding {
+  /** Machine-readable kind of finding, e.g. 'missing_receipt' */
+  code: string
+  severity: PolicySeverity
+  /** Policy rule that produced the finding, when it came from one */
+  ruleId?: string
+  message: string
+  /** Form field the finding is about, e.g. 'amount' or 'receipt' */
+  field?: string
+  /** Policy section or document the finding cites */
+  citation?: string
+  /** Knowledge-base document the finding comes from, when the agent named one */
+  source?: PolicySourceReference
+}
+
+/**
+ * Document (and section) of the expense policy knowledge base that a
+ * finding or answer is based on
+ */
+export interface PolicySourceReference {
+  /** Document file name as listed in the knowledge base */
+  document: string
+  section?: string
+}
+
+/**
+ * A verdict with its violations and warnings normalized into findings
+ */
+export interface NormalizedPolicyValidation {
+  is_compliant: boolean
+  violations: PolicyFinding[]
+  warnings: PolicyFinding[]
+  approval_required: boolean
+}
+
+/**
+ * Full `result` payload of an expense submission
+ */
+export interface ExpenseResult {
+  expense_details: ExpenseDetails
+  policy_validation: PolicyValidation
+  answer: string
+  recommendations: string[]
+  /** Policy documents the agent cited, in whatever shape it returned them */
+  sources?: unknown[]
+}
+
+/**
+ * One line of a receipt allocated to its own category and cost center.
+ * The amounts of all splits on an expense add up to the form amount.
+ */
+export interface ExpenseSplit {
+  id: string
+  description: string
+  amount: string
+  category: string
+  costCenter: string
+}
+
+/**
+ * What an expense claims: a receipted purchase, or travel reimbursed from
+ * a rate table without a receipt
+ */
+export type ExpenseType = 'receipt' | 'mileage' | 'per_diem'
+
+export type DistanceUnit = 'km' | 'mi'
+
+/**
+ * Trip entered on a Mileage expense. The form amount is the distance times
+ * the rate in effect on the trip date.
+ */
+export interface MileageDetails {
+  origin: string
+  destination: string
+  distance: string
+  unit: DistanceUnit
+  vehicleType: string
+  purpose: string
+  /** Rate applied per unit, in the reporting currency */
+  rate?: number
+  /** Effective date of the rate applied */
+  rateEffectiveFrom?: string
+}
+
+/**
+ * Finance-maintained reimbursement rate for one vehicle type and unit,
+ * applying to trips on or after `effectiveFrom` until superseded
+ */
+export interface MileageRate {
+  id: string
+  vehicleType: string
+  unit: DistanceUnit
+  /** Reporting currency per unit of distance */
+  rate: number
+  /** YYYY-MM-DD */
+  effectiveFrom: string
+}
+
+export type Meal = 'breakfast' | 'lunch' | 'dinner'
+
+/**
+ * Daily meals and incidentals allowance for a location, with the amount
+ * deducted for each meal provided (by a hotel, conference or client)
+ */
+export interface PerDiemRate {
+  id: string
+  location: string
+  /** Full-day allowance in the reporting currency */
+  dailyRate: number
+  mealDeductions: Record<Meal, number>
+}
+
+/**
+ * One day of a per diem trip as calculated at submission
+ */
+export interface PerDiemDay {
+  date: string
+  /** Share of the daily rate paid: reduced on the first and last day */
+  proration: number
+  providedMeals: Meal[]
+  deduction: number
+  allowance: number
+}
+
+/**
+ * Trip entered on a Per Diem expense. `days` is the breakdown the form
+ * amount was computed from.
+ */
+export interface PerDiemDetails {
+  destination: string
+  startDate: string
+  endDate: string
+  purpose: string
+  /** Meals provided, keyed by YYYY-MM-DD */
+  providedMeals: Record<string, Meal[]>
+  /** Daily rate applied, from the rate for `destination` */
+  dailyRate?: number
+  days: PerDiemDay[]
+}
+
+/**
+ * Values entered in the submission form (kept as strings, as typed)
+ */
+export interface ExpenseFormData {
+  vendor: string
+  date: string
+  /** In `currency`, the currency printed on the receipt */
+  amount: string
+  /** ISO 4217 code */
+  currency: string
+  /** With splits, the category carrying the largest share of the amount */
+  category: string
+  description: string
+  /** Line-level allocation; absent when the whole receipt has one category */
+  splits?: ExpenseSplit[]
+  /** Absent on receipt expenses */
+  type?: ExpenseType
+  mileage?: MileageDetails
+  perDiem?: PerDiemDetails
+}
+
+/**
+ * Finance-maintained exchange rates into the reporting currency
+ */
+export interface ExchangeRateTable {
+  /** Date the rates were published (YYYY-MM-DD) */
+  asOf: string
+  /** Units of the reporting currency per one unit of each currency */
+  rates: Record<string, number>
+  /** Where the rates came from, e.g. the imported file name */
+  source?: string
+}
+
+/**
+ * An expense amount converted into the reporting currency at submission
+ */
+export interface CurrencyConversion {
+  currency: string
+  amount: number
+  rate: number
+  ratesAsOf: string
+}
+
+/**
+ * Agent policy verdict for each split of an expense, keyed by split id
+ */
+export type SplitValidations = Record<string, PolicyValidation>
+
+export type PolicyRuleKind = 'category_cap' | 'receipt_required' | 'weekend_spend' | 'keyword' | 'submission_age'
+
+export type PolicySeverity = 'violation' | 'warning'
+
+/**
+ * One deterministic policy rule. Which of the optional settings applies
+ * depends on `kind` (see src/utils/policyRules.ts).
+ */
+export interface PolicyRule {
+  id: string
+  name: string
+  kind: PolicyRuleKind
+  severity: PolicySeverity
+  /** Disabled rules stay in the set but are not evaluated */
+  enabled: boolean
+  /** Categories the rule applies to; empty means every category */
+  categories: string[]
+  /** Cap or threshold in the reporting currency */
+  amount?: number
+  /** Words matched against receipt items and the description */
+  keywords?: string[]
+  /** Maximum days between the expense date and submission */
+  days?: number
+}
+
+/**
+ * A published, immutable version of the policy rules. A version applies to
+ * expenses dated on or after `effectiveFrom` until a later version takes over.
+ */
+export interface PolicyRuleSet {
+  version: number
+  effectiveFrom: string
+  rules: PolicyRule[]
+  note?: string
+  publishedAt?: string
+  publishedBy?: ExpenseActor
+}
+
+export interface RuleFinding {
+  ruleId: string
+  severity: PolicySeverity
+  message: string
+  /** Form field the rule checks */
+  field?: string
+}
+
+/**
+ * Result of running the policy rules on a submission
+ */
+export interface RuleEvaluation {
+  ruleSetVersion: number
+  findings: RuleFinding[]
+  evaluatedAt: string
+}
+
+/**
+ * Expense lifecycle states. Legal moves between them live in
+ * src/utils/expenseLifecycle.ts
+ */
+export type ExpenseStatus =
+  | 'Draft'
+  | 'Submitted'
+  | 'Pending Approval'
+  | 'Approved'
+  | 'Rejected'
+  | 'Returned'
+  | 'Reimbursed'
+
+/**
+ * Who performed an action on an expense
+ */
+export interface ExpenseActor {
+  id: string
+  name: string
+}
+
+/**
+ * One recorded move in the expense lifecycle
+ */
+export interface StatusTransition {
+  from: ExpenseStatus | null
+  to: ExpenseStatus
+  actor: ExpenseActor
+  at: string
+  comment?: string
+}
+
+export type ApprovalStepStatus = 'pending' | 'approved' | 'rejected' | 'returned'
+
+/**
+ * One approver level in an expense's approval chain
+ */
+export interface ApprovalStep {
+  role: UserRole
+  status: ApprovalStepStatus
+  decidedBy?: ExpenseActor
+  decidedAt?: string
+  comment?: string
+}
+
+/**
+ * Approval chain resolved for an expense at submission time
+ */
+export interface ApprovalChain {
+  ruleId: string
+  ruleName: string
+  steps: ApprovalStep[]
+  /** Index into `steps` of the level currently deciding */
+  currentStep: number
+}
+
+/**
+ * Finance-maintained rule that picks the approval chain for an expense.
+ * Empty `categories` / `departments` match everything.
+ */
+export interface ApprovalChainRule {
+  id: string
+  name: string
+  /** Inclusive lower bound */
+  minAmount?: number
+  /** Exclusive upper bound */
+  maxAmount?: number
+  categories: string[]
+  departments: string[]
+  steps: UserRole[]
+}
+
+/**
+ * Snapshot of one submission of an expense. Editing a returned or rejected
+ * expense adds a new version and keeps the earlier ones.
+ */
+export interface ExpenseVersion {
+  version: number
+  form: ExpenseFormData
+  receiptAssetIds: string[]
+  receiptFileName?: string
+  result: ExpenseResult
+  splitValidations?: SplitValidations
+  conversion?: CurrencyConversion
+  /** Submission payload version the result came from; absent for the original free-text prompt */
+  payloadVersion?: number
+  ruleEvaluation?: RuleEvaluation
+  submittedAt: string
+  submittedBy: ExpenseActor
+}
+
+/**
+ * Recorded when the submitter files an expense despite a duplicate warning
+ */
+export interface DuplicateOverride {
+  matchedExpenseIds: string[]
+  reason: string
+  actor: ExpenseActor
+  at: string
+}
+
+/**
+ * An expense as persisted by the expense repository. Once submitted, the
+ * top-level form, receipt and result fields mirror the latest entry in
+ * `versions`.
+ */
+export interface StoredExpense {
+  id: string
+  form: ExpenseFormData
+  receiptAssetIds: string[]
+  receiptFileName?: string
+  /** Content hash of the receipt file, for duplicate detection */
+  receiptHash?: string
+  /** Agent validation; absent while the expense is still a Draft */
+  result?: ExpenseResult
+  /** Per-split agent verdicts when the receipt is split */
+  splitValidations?: SplitValidations
+  /** Submission payload version `result` came from (see utils/submissionPayload) */
+  payloadVersion?: number
+  /** Local policy rule findings; absent while the expense is a Draft */
+  ruleEvaluation?: RuleEvaluation
+  /** Amount in the reporting currency; absent while the expense is a Draft */
+  conversion?: CurrencyConversion
+  status: ExpenseStatus
+  history: StatusTransition[]
+  /** Department of the submitter, used for approval routing */
+  department: string
+  approvalChain?: ApprovalChain
+  duplicateOverride?: DuplicateOverride
+  /** Every submission, oldest first (empty for drafts) */
+  versions: ExpenseVersion[]
+  createdAt: string
+  updatedAt: string
+}
@@ -6,6 +6,13 @@ export interface User {
   email: string
 }
 
+export type UserRole = 'employee' | 'manager' | 'finance' | 'cfo'
+
+export interface AppUser extends User {
+  role: UserRole
+  department: string
+}
+
 export interface ApiResponse<T> {
   data: T
   message: string
@@ -258,4 +265,10 @@ export function isCriticalEvent(event: SSEEventBase & { type?: SSEEventType }):
     'validation_error',
   ]
   return criticalTypes.includes(event.type as SSEEventType)
-}
\ No newline at end of file
+}
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+
+export * from './expense'
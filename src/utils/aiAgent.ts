@@ -2,6 +2,8 @@
  * AI Agent Utility
  *
  * Direct wrapper for calling the Lyzr AI Agent API with normalized response handling.
+ * Set `VITE_USE_LYZR_PROXY=true` to route calls through the local server proxy
+ * (see src/utils/lyzrConfig.ts) so the API key stays on the server.
  *
  * ## Response Structure (GUARANTEED)
  *
@@ -32,14 +34,14 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { LYZR_AGENT_BASE_URL, LYZR_NOT_CONFIGURED_ERROR, isLyzrConfigured, lyzrHeaders } from '@/utils/lyzrConfig'
 import React from 'react'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+const LYZR_API_URL = `${LYZR_AGENT_BASE_URL}/inference/chat/`
 
 // =============================================================================
 // Types - UI can rely on these!
@@ -239,10 +241,9 @@ export async function callAIAgent(
   try {
     const response = await fetch(LYZR_API_URL, {
       method: 'POST',
-      headers: {
+      headers: lyzrHeaders({
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+      }, options?.user_id),
       body: JSON.stringify(payload),
     })
 
@@ -439,7 +440,7 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
+const LYZR_UPLOAD_URL = `${LYZR_AGENT_BASE_URL}/assets/upload`
 
 /**
  * Upload result for a single file
@@ -516,7 +517,7 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     }
   }
 
-  if (!LYZR_API_KEY) {
+  if (!isLyzrConfigured()) {
     return {
       success: false,
       asset_ids: [],
@@ -524,9 +525,9 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
       total_files: fileArray.length,
       successful_uploads: 0,
       failed_uploads: fileArray.length,
-      message: 'VITE_LYZR_API_KEY not configured',
+      message: LYZR_NOT_CONFIGURED_ERROR,
       timestamp: new Date().toISOString(),
-      error: 'VITE_LYZR_API_KEY not configured in environment',
+      error: `${LYZR_NOT_CONFIGURED_ERROR} in environment`,
     }
   }
 
@@ -538,10 +539,8 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
 
     const response = await fetch(LYZR_UPLOAD_URL, {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-        // Don't set Content-Type - let fetch set it with boundary for multipart
-      },
+      // Don't set Content-Type - let fetch set it with boundary for multipart
+      headers: lyzrHeaders(),
       body: formData,
     })
 
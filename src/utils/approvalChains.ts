@@ -0,0 +1,224 @@
+/**
+ * Approval Chains
+ *
+ * Finance-configurable routing of expenses to one or more approver levels.
+ * Rules are checked in order and the first one matching the expense's
+ * amount (in the reporting currency), category and department decides the
+ * chain. The chain is resolved once, at submission time, and stored on the
+ * expense.
+ *
+ * Defaults:
+ * - $5,000 and above: Manager → Finance → CFO
+ * - $500 and above:   Manager → Finance
+ * - Everything else:  Manager
+ *
+ * @example
+ * ```tsx
+ * const chain = resolveApprovalChain(expense, getApprovalChainRules())
+ * const result = recordStepDecision(chain, 'approved', actor, 'OK')
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type {
+  ApprovalChain,
+  ApprovalChainRule,
+  ApprovalStep,
+  ApprovalStepStatus,
+  ExpenseActor,
+  StoredExpense,
+} from '@/types'
+import { getReportingAmount } from '@/utils/exchangeRates'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const RULES_STORAGE_KEY = 'expenseflow:approval-chain-rules'
+
+export const DEFAULT_APPROVAL_CHAIN_RULES: ApprovalChainRule[] = [
+  {
+    id: 'executive',
+    name: 'Executive review',
+    minAmount: 5000,
+    categories: [],
+    departments: [],
+    steps: ['manager', 'finance', 'cfo'],
+  },
+  {
+    id: 'finance',
+    name: 'Finance review',
+    minAmount: 500,
+    categories: [],
+    departments: [],
+    steps: ['manager', 'finance'],
+  },
+  {
+    id: 'manager',
+    name: 'Manager only',
+    categories: [],
+    departments: [],
+    steps: ['manager'],
+  },
+]
+
+// =============================================================================
+// Rule Storage
+// =============================================================================
+
+const listeners = new Set<(rules: ApprovalChainRule[]) => void>()
+
+export function getApprovalChainRules(): ApprovalChainRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_APPROVAL_CHAIN_RULES
+}
+
+/**
+ * Validate rules before saving. Returns a list of problems (empty when valid).
+ */
+export function validateApprovalChainRules(rules: ApprovalChainRule[]): string[] {
+  const problems: string[] = []
+
+  if (rules.length === 0) {
+    problems.push('At least one rule is required')
+  }
+
+  rules.forEach((rule, index) => {
+    const label = rule.name.trim() || `Rule ${index + 1}`
+    if (!rule.name.trim()) {
+      problems.push(`${label}: name is required`)
+    }
+    if (rule.steps.length === 0) {
+      problems.push(`${label}: add at least one approval step`)
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount >= rule.maxAmount) {
+      problems.push(`${label}: minimum amount must be below the maximum`)
+    }
+  })
+
+  const last = rules[rules.length - 1]
+  if (last && (last.minAmount !== undefined || last.maxAmount !== undefined
+    || last.categories.length > 0 || last.departments.length > 0)) {
+    problems.push('The last rule must match every expense so nothing goes unrouted')
+  }
+
+  return problems
+}
+
+export function saveApprovalChainRules(rules: ApprovalChainRule[]): { success: boolean; error?: string } {
+  const problems = validateApprovalChainRules(rules)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules))
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save rules' }
+  }
+
+  listeners.forEach(listener => listener(rules))
+  return { success: true }
+}
+
+export function resetApprovalChainRules(): void {
+  try {
+    localStorage.removeItem(RULES_STORAGE_KEY)
+  } catch {
+    // Nothing stored
+  }
+  listeners.forEach(listener => listener(DEFAULT_APPROVAL_CHAIN_RULES))
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+function ruleMatches(rule: ApprovalChainRule, amount: number, category: string, department: string): boolean {
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false
+  if (rule.maxAmount !== undefined && amount >= rule.maxAmount) return false
+  if (rule.categories.length > 0 && !rule.categories.includes(category)) return false
+  if (rule.departments.length > 0 && !rule.departments.includes(department)) return false
+  return true
+}
+
+/**
+ * Pick the chain for an expense from the first matching rule
+ */
+export function resolveApprovalChain(
+  expense: Pick<StoredExpense, 'form' | 'department' | 'conversion'>,
+  rules: ApprovalChainRule[] = getApprovalChainRules()
+): ApprovalChain {
+  const amount = getReportingAmount(expense)
+  const rule = rules.find(candidate => ruleMatches(candidate, amount, expense.form.category, expense.department))
+    ?? DEFAULT_APPROVAL_CHAIN_RULES[DEFAULT_APPROVAL_CHAIN_RULES.length - 1]
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    steps: rule.steps.map(role => ({ role, status: 'pending' })),
+    currentStep: 0,
+  }
+}
+
+export function getCurrentStep(chain: ApprovalChain | undefined): ApprovalStep | null {
+  if (!chain) return null
+  return chain.steps[chain.currentStep] ?? null
+}
+
+/**
+ * Record a decision on the current step. Returns the updated chain and
+ * whether the chain is now complete (every step approved).
+ */
+export function recordStepDecision(
+  chain: ApprovalChain,
+  status: Exclude<ApprovalStepStatus, 'pending'>,
+  actor: ExpenseActor,
+  comment: string
+): { chain: ApprovalChain; complete: boolean } {
+  const steps = chain.steps.map((step, index) => index === chain.currentStep
+    ? { ...step, status, decidedBy: actor, decidedAt: new Date().toISOString(), comment }
+    : step
+  )
+
+  const isLastStep = chain.currentStep >= chain.steps.length - 1
+  const advance = status === 'approved' && !isLastStep
+
+  return {
+    chain: {
+      ...chain,
+      steps,
+      currentStep: advance ? chain.currentStep + 1 : chain.currentStep,
+    },
+    complete: status === 'approved' && isLastStep,
+  }
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function useApprovalChainRules() {
+  const [rules, setRules] = useState<ApprovalChainRule[]>(getApprovalChainRules)
+
+  useEffect(() => {
+    listeners.add(setRules)
+    return () => {
+      listeners.delete(setRules)
+    }
+  }, [])
+
+  return {
+    rules,
+    saveRules: saveApprovalChainRules,
+    resetRules: resetApprovalChainRules,
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Approvals
+ *
+ * Approver-side actions on top of the expense lifecycle: who is waiting on
+ * whom, and approve / reject / return-for-changes with a mandatory comment.
+ *
+ * Expenses move through their approval chain (see utils/approvalChains) one
+ * level at a time. An approval on an intermediate level forwards the expense
+ * to the next level; the last approval, or any rejection or return, moves
+ * the expense out of Pending Approval. Finance then marks approved expenses
+ * reimbursed once they are paid out.
+ *
+ * @example
+ * ```tsx
+ * const result = await decideExpense(expense.id, 'return', user, 'Please attach the itemized receipt')
+ * if (!result.success) setError(result.error)
+ * ```
+ */
+
+import type { AppUser, ApprovalStepStatus, ExpenseActor, ExpenseStatus, StoredExpense } from '@/types'
+import { transitionExpense, transitionStoredExpense, type TransitionResult } from '@/utils/expenseLifecycle'
+import { getExpenseRepository } from '@/utils/expenseRepository'
+import { getCurrentStep, recordStepDecision } from '@/utils/approvalChains'
+import { ROLE_LABELS, isApprover, isFinanceAdmin, toActor } from '@/utils/currentUser'
+import { combinedPolicyValidation } from '@/utils/expenseSplits'
+import { policyDisagreements } from '@/utils/policyRules'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ApprovalDecision = 'approve' | 'reject' | 'return'
+
+/**
+ * One event in an expense's history, as shown in the detail timeline
+ */
+export interface TimelineEntry {
+  at: string
+  actor: ExpenseActor
+  title: string
+  comment?: string
+}
+
+export interface BulkApprovalResult {
+  approved: string[]
+  failed: { id: string; error: string }[]
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DECISION_STATUS: Record<ApprovalDecision, ExpenseStatus> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  return: 'Returned',
+}
+
+const DECISION_STEP_STATUS: Record<ApprovalDecision, Exclude<ApprovalStepStatus, 'pending'>> = {
+  approve: 'approved',
+  reject: 'rejected',
+  return: 'returned',
+}
+
+export const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  return: 'Return for changes',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The actor who submitted the expense (first transition into Submitted)
+ */
+export function getSubmitter(expense: StoredExpense): ExpenseActor | null {
+  return expense.history.find(transition => transition.to === 'Submitted')?.actor ?? null
+}
+
+/**
+ * The actor who created the expense, including drafts that were never submitted
+ */
+export function getCreator(expense: StoredExpense): ExpenseActor | null {
+  return expense.history[0]?.actor ?? null
+}
+
+/**
+ * Whether the expense is waiting for a decision from this user: the current
+ * chain level must be the user's role, and nobody approves their own expense.
+ * Expenses stored before approval chains existed accept any approver.
+ */
+export function isAwaitingApprover(expense: StoredExpense, user: AppUser): boolean {
+  if (expense.status !== 'Pending Approval') return false
+  if (!isApprover(user)) return false
+  if (getSubmitter(expense)?.id === user.id) return false
+
+  const step = getCurrentStep(expense.approvalChain)
+  return step ? step.role === user.role : true
+}
+
+/**
+ * Compliant expenses with no violations can be approved in bulk. Expenses
+ * filed over a duplicate warning always get an individual look.
+ */
+export function isBulkApprovable(expense: StoredExpense): boolean {
+  const validation = combinedPolicyValidation(expense)
+  return !!validation && validation.is_compliant && validation.violations.length === 0
+    && !expense.duplicateOverride
+    && policyDisagreements(expense).length === 0
+}
+
+/**
+ * Status transitions plus intermediate chain approvals, oldest first.
+ * Final approvals, rejections and returns are already status transitions.
+ */
+export function getExpenseTimeline(expense: StoredExpense): TimelineEntry[] {
+  const entries: TimelineEntry[] = expense.history.map(transition => ({
+    at: transition.at,
+    actor: transition.actor,
+    title: transition.from ? `${transition.from} → ${transition.to}` : transition.to,
+    comment: transition.comment,
+  }))
+
+  const steps = expense.approvalChain?.steps ?? []
+  steps.forEach((step, index) => {
+    if (step.status !== 'approved' || index === steps.length - 1) return
+    if (!step.decidedBy || !step.decidedAt) return
+    entries.push({
+      at: step.decidedAt,
+      actor: step.decidedBy,
+      title: `${ROLE_LABELS[step.role]} approval`,
+      comment: step.comment,
+    })
+  })
+
+  return entries.sort((a, b) => a.at.localeCompare(b.at))
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Record an approver decision. A comment is required for every decision.
+ */
+export async function decideExpense(
+  id: string,
+  decision: ApprovalDecision,
+  user: AppUser,
+  comment: string
+): Promise<TransitionResult> {
+  if (!comment.trim()) {
+    return { success: false, error: 'A comment is required' }
+  }
+
+  const repository = getExpenseRepository()
+  const loaded = await repository.get(id)
+  if (!loaded.success) {
+    return { success: false, error: loaded.error }
+  }
+  if (!loaded.data) {
+    return { success: false, error: `Expense ${id} not found` }
+  }
+
+  const expense = loaded.data
+  if (!isAwaitingApprover(expense, user)) {
+    return { success: false, error: `This expense is not waiting for ${user.name}` }
+  }
+
+  const actor = toActor(user)
+  let updated = expense
+  let chainComplete = true
+
+  if (expense.approvalChain) {
+    const recorded = recordStepDecision(expense.approvalChain, DECISION_STEP_STATUS[decision], actor, comment.trim())
+    updated = { ...expense, approvalChain: recorded.chain }
+    chainComplete = decision !== 'approve' || recorded.complete
+  }
+
+  if (!chainComplete) {
+    // Intermediate approval: the expense stays pending for the next level
+    const forwarded = { ...updated, updatedAt: new Date().toISOString() }
+    const saved = await repository.save(forwarded)
+    return saved.success
+      ? { success: true, expense: saved.data }
+      : { success: false, error: saved.error }
+  }
+
+  const transitioned = transitionExpense(updated, DECISION_STATUS[decision], actor, comment)
+  if (!transitioned.success) {
+    return transitioned
+  }
+
+  const saved = await repository.save(transitioned.expense!)
+  return saved.success
+    ? { success: true, expense: saved.data }
+    : { success: false, error: saved.error }
+}
+
+/**
+ * Record that finance paid out an approved expense. The payment reference,
+ * if given, is kept as the transition comment.
+ */
+export async function markReimbursed(id: string, user: AppUser, reference: string): Promise<TransitionResult> {
+  if (!isFinanceAdmin(user)) {
+    return { success: false, error: 'Only finance can mark expenses reimbursed' }
+  }
+  return transitionStoredExpense(id, 'Reimbursed', toActor(user), reference.trim() || undefined)
+}
+
+/**
+ * Approve several compliant expenses with one shared comment
+ */
+export async function bulkApprove(
+  expenses: StoredExpense[],
+  user: AppUser,
+  comment: string
+): Promise<BulkApprovalResult> {
+  const result: BulkApprovalResult = { approved: [], failed: [] }
+
+  for (const expense of expenses) {
+    if (!isBulkApprovable(expense)) {
+      result.failed.push({ id: expense.id, error: 'Expense has policy violations' })
+      continue
+    }
+
+    const decided = await decideExpense(expense.id, 'approve', user, comment)
+    if (decided.success) {
+      result.approved.push(expense.id)
+    } else {
+      result.failed.push({ id: expense.id, error: decided.error || 'Approval failed' })
+    }
+  }
+
+  return result
+}
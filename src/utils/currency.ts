@@ -0,0 +1,74 @@
+/**
+ * Currency
+ *
+ * Currencies accepted on expenses and money formatting. Every amount shown
+ * in the app goes through formatMoney so symbols, separators and decimals
+ * follow the currency (¥1,200 vs €1.200,00 in a German locale).
+ *
+ * @example
+ * ```tsx
+ * formatMoney(1234.5, 'EUR')        // "€1,234.50"
+ * formatAmount(expense.form.amount, expense.form.currency)
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Currency all reports, filters and approval thresholds are expressed in */
+export const REPORTING_CURRENCY = 'USD'
+
+export const CURRENCIES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CAD',
+  'AUD',
+  'JPY',
+  'CHF',
+  'INR',
+  'SGD',
+  'MXN',
+]
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function getFormatter(currency: string): Intl.NumberFormat {
+  let formatter = formatters.get(currency)
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency })
+    } catch {
+      // Unknown code from an old record or the agent; show it as a plain number
+      formatter = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    }
+    formatters.set(currency, formatter)
+  }
+  return formatter
+}
+
+export function formatMoney(amount: number, currency: string = REPORTING_CURRENCY): string {
+  const code = currency || REPORTING_CURRENCY
+  const formatted = getFormatter(code).format(Number.isFinite(amount) ? amount : 0)
+  return getFormatter(code).resolvedOptions().style === 'currency' ? formatted : `${code} ${formatted}`
+}
+
+/**
+ * Format an amount kept as typed in the form
+ */
+export function formatAmount(amount: string, currency: string = REPORTING_CURRENCY): string {
+  return formatMoney(parseFloat(amount) || 0, currency)
+}
+
+/**
+ * Minor-unit step for amount inputs, e.g. 1 for JPY and 0.01 for USD
+ */
+export function amountStep(currency: string): string {
+  const digits = getFormatter(currency || REPORTING_CURRENCY).resolvedOptions().maximumFractionDigits
+  return digits === 0 ? '1' : (1 / 10 ** digits).toFixed(digits)
+}
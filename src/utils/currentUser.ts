@@ -0,0 +1,128 @@
+/**
+ * Current User
+ *
+ * ExpenseFlow has no sign-in yet. The acting user is picked from DEMO_USERS
+ * (see the switcher in AppHeader) and kept in localStorage, so lifecycle
+ * transitions can record who performed them and approvers get an inbox.
+ *
+ * @example
+ * ```tsx
+ * const { user, users, setUser } = useCurrentUser()
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type { AppUser, ExpenseActor, UserRole } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const CURRENT_USER_STORAGE_KEY = 'expenseflow:current-user'
+
+export const DEMO_USERS: AppUser[] = [
+  { id: 'employee-1', name: 'Employee', email: 'employee@example.com', role: 'employee', department: 'Engineering' },
+  { id: 'manager-1', name: 'Manager', email: 'manager@example.com', role: 'manager', department: 'Engineering' },
+  { id: 'finance-1', name: 'Finance', email: 'finance@example.com', role: 'finance', department: 'Finance' },
+  { id: 'cfo-1', name: 'CFO', email: 'cfo@example.com', role: 'cfo', department: 'Executive' },
+]
+
+export const DEPARTMENTS = [
+  'Engineering',
+  'Sales',
+  'Marketing',
+  'Operations',
+  'Finance',
+  'Executive',
+]
+
+export const APPROVER_ROLES: UserRole[] = ['manager', 'finance', 'cfo']
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  employee: 'Employee',
+  manager: 'Manager',
+  finance: 'Finance',
+  cfo: 'CFO',
+}
+
+/**
+ * Actor used for transitions made automatically by the app
+ */
+export const SYSTEM_ACTOR: ExpenseActor = {
+  id: 'system',
+  name: 'ExpenseFlow',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const listeners = new Set<(user: AppUser) => void>()
+
+/**
+ * Get the user the app is currently acting as
+ */
+export function getCurrentUser(): AppUser {
+  try {
+    const storedId = localStorage.getItem(CURRENT_USER_STORAGE_KEY)
+    const stored = DEMO_USERS.find(user => user.id === storedId)
+    if (stored) return stored
+  } catch {
+    // Fall through to the default user
+  }
+  return DEMO_USERS[0]
+}
+
+/**
+ * Switch the acting user
+ */
+export function setCurrentUser(userId: string): void {
+  const user = DEMO_USERS.find(candidate => candidate.id === userId)
+  if (!user) return
+
+  try {
+    localStorage.setItem(CURRENT_USER_STORAGE_KEY, user.id)
+  } catch {
+    // Still switch for this session
+  }
+  listeners.forEach(listener => listener(user))
+}
+
+/**
+ * Reduce a user to the fields recorded on lifecycle transitions
+ */
+export function toActor(user: AppUser): ExpenseActor {
+  return { id: user.id, name: user.name }
+}
+
+export function isApprover(user: AppUser): boolean {
+  return user.role !== 'employee'
+}
+
+/**
+ * Finance and the CFO maintain approval chains and policy configuration
+ */
+export function isFinanceAdmin(user: AppUser): boolean {
+  return user.role === 'finance' || user.role === 'cfo'
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function useCurrentUser() {
+  const [user, setUser] = useState<AppUser>(getCurrentUser)
+
+  useEffect(() => {
+    listeners.add(setUser)
+    return () => {
+      listeners.delete(setUser)
+    }
+  }, [])
+
+  return {
+    user,
+    users: DEMO_USERS,
+    setUser: setCurrentUser,
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Duplicate Detection
+ *
+ * Catches the same receipt being filed twice before an expense is sent to
+ * the agent. Two signals:
+ *
+ * - Receipt hash: SHA-256 of the receipt file (FNV-1a where Web Crypto is
+ *   unavailable, e.g. plain-http dev hosts). A hash match is a near-certain
+ *   duplicate.
+ * - Fuzzy match: similar vendor name, dates at most a day apart and amounts
+ *   within a cent or 1%.
+ *
+ * @example
+ * ```tsx
+ * const receiptHash = await hashReceiptFile(file)
+ * const matches = findDuplicateExpenses({ form, receiptHash }, expenses)
+ * if (matches.length > 0) {
+ *   // warn; the user may continue with a written reason
+ * }
+ * ```
+ */
+
+import type { ExpenseFormData, StoredExpense } from '@/types'
+import { getReportingAmount } from '@/utils/exchangeRates'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const VENDOR_SIMILARITY_THRESHOLD = 0.8
+const MAX_DATE_DIFFERENCE_DAYS = 1
+const AMOUNT_TOLERANCE_RATIO = 0.01
+const AMOUNT_TOLERANCE_MIN = 0.01
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DuplicateCandidate {
+  /** Id of the expense being submitted, so it is not matched against itself */
+  id?: string
+  form: ExpenseFormData
+  receiptHash?: string
+}
+
+export type DuplicateReason = 'same-receipt' | 'similar-details'
+
+export interface DuplicateMatch {
+  expense: StoredExpense
+  reasons: DuplicateReason[]
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  'same-receipt': 'Same receipt file',
+  'similar-details': 'Similar vendor, date and amount',
+}
+
+// =============================================================================
+// Receipt Hashing
+// =============================================================================
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function fnv1a(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Content hash of a receipt file, prefixed with the algorithm used
+ */
+export async function hashReceiptFile(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes)
+    return `sha256:${toHex(new Uint8Array(digest))}`
+  }
+  return `fnv1a:${fnv1a(bytes)}:${bytes.length}`
+}
+
+// =============================================================================
+// Fuzzy Matching
+// =============================================================================
+
+function normalizeVendor(vendor: string): string {
+  return vendor.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * 0..1 similarity of two vendor names; one name containing the other
+ * ("Uber" / "Uber Technologies") counts as a match
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  const left = normalizeVendor(a)
+  const right = normalizeVendor(b)
+  if (!left || !right) return 0
+  if (left === right || left.includes(right) || right.includes(left)) return 1
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length)
+}
+
+function datesClose(a: string, b: string): boolean {
+  const left = Date.parse(a)
+  const right = Date.parse(b)
+  if (Number.isNaN(left) || Number.isNaN(right)) return false
+  return Math.abs(left - right) <= MAX_DATE_DIFFERENCE_DAYS * DAY_MS
+}
+
+/**
+ * Amounts in the same currency are compared as typed; otherwise both are
+ * compared in the reporting currency
+ */
+function amountsClose(form: ExpenseFormData, other: StoredExpense): boolean {
+  const sameCurrency = form.currency === other.form.currency
+  const left = sameCurrency ? parseFloat(form.amount) : getReportingAmount({ form })
+  const right = sameCurrency ? parseFloat(other.form.amount) : getReportingAmount(other)
+  if (!Number.isFinite(left) || !Number.isFinite(right) || left === 0 || right === 0) return false
+  const tolerance = Math.max(AMOUNT_TOLERANCE_MIN, Math.max(left, right) * AMOUNT_TOLERANCE_RATIO)
+  return Math.abs(left - right) <= tolerance
+}
+
+function hasSimilarDetails(form: ExpenseFormData, other: StoredExpense): boolean {
+  return vendorSimilarity(form.vendor, other.form.vendor) >= VENDOR_SIMILARITY_THRESHOLD
+    && datesClose(form.date, other.form.date)
+    && amountsClose(form, other)
+}
+
+/**
+ * Filed expenses that look like the candidate. Drafts are ignored since
+ * they haven't been filed; receipt matches are listed first.
+ */
+export function findDuplicateExpenses(candidate: DuplicateCandidate, expenses: StoredExpense[]): DuplicateMatch[] {
+  return expenses
+    .filter(expense => expense.id !== candidate.id && expense.status !== 'Draft')
+    .map(expense => {
+      const reasons: DuplicateReason[] = []
+      if (candidate.receiptHash && expense.receiptHash === candidate.receiptHash) {
+        reasons.push('same-receipt')
+      }
+      if (hasSimilarDetails(candidate.form, expense)) {
+        reasons.push('similar-details')
+      }
+      return { expense, reasons }
+    })
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => Number(b.reasons.includes('same-receipt')) - Number(a.reasons.includes('same-receipt')))
+}
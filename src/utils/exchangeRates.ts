@@ -0,0 +1,248 @@
+/**
+ * Exchange Rates
+ *
+ * Finance-maintained table of rates into the reporting currency, imported
+ * from a file rather than fetched from a live service. Expenses are
+ * converted once, at submission, and keep the rate they were converted at.
+ *
+ * Import formats:
+ * - CSV: `currency,rate` per line (header optional), rate in reporting
+ *   currency per unit, e.g. `EUR,1.08`
+ * - JSON: `{ "asOf": "2024-06-01", "rates": { "EUR": 1.08 } }`
+ *
+ * @example
+ * ```tsx
+ * const parsed = parseExchangeRateImport(text, file.name)
+ * if (parsed.success) saveExchangeRates(parsed.data)
+ *
+ * const converted = convertToReporting(120, 'EUR')
+ * // converted.conversion → { currency: 'USD', amount: 129.6, rate: 1.08, ratesAsOf: '2024-06-01' }
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type { CurrencyConversion, ExchangeRateTable, ExpenseFormData } from '@/types'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const RATES_STORAGE_KEY = 'expenseflow:exchange-rates'
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  asOf: '2024-06-03',
+  source: 'Built-in sample rates',
+  rates: {
+    EUR: 1.08,
+    GBP: 1.27,
+    CAD: 0.73,
+    AUD: 0.66,
+    JPY: 0.0064,
+    CHF: 1.12,
+    INR: 0.012,
+    SGD: 0.74,
+    MXN: 0.059,
+  },
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ConversionResult {
+  success: boolean
+  conversion?: CurrencyConversion
+  error?: string
+}
+
+export interface RateImportResult {
+  success: boolean
+  data?: ExchangeRateTable
+  error?: string
+}
+
+// =============================================================================
+// Rate Storage
+// =============================================================================
+
+const listeners = new Set<(table: ExchangeRateTable) => void>()
+
+export function getExchangeRates(): ExchangeRateTable {
+  try {
+    const raw = localStorage.getItem(RATES_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (parsed && typeof parsed.rates === 'object') return parsed
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_EXCHANGE_RATES
+}
+
+/**
+ * Validate a rate table before saving. Returns a list of problems (empty when valid).
+ */
+export function validateExchangeRates(table: ExchangeRateTable): string[] {
+  const problems: string[] = []
+
+  if (!ISO_DATE_PATTERN.test(table.asOf) || Number.isNaN(Date.parse(table.asOf))) {
+    problems.push('Rates need an "as of" date (YYYY-MM-DD)')
+  }
+  if (Object.keys(table.rates).length === 0) {
+    problems.push('At least one rate is required')
+  }
+
+  Object.entries(table.rates).forEach(([currency, rate]) => {
+    if (!CURRENCY_CODE_PATTERN.test(currency)) {
+      problems.push(`${currency || '(blank)'}: not a three-letter currency code`)
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      problems.push(`${currency}: rate must be a positive number`)
+    }
+    if (currency === REPORTING_CURRENCY && rate !== 1) {
+      problems.push(`${currency} is the reporting currency; its rate must be 1`)
+    }
+  })
+
+  return problems
+}
+
+export function saveExchangeRates(table: ExchangeRateTable): { success: boolean; error?: string } {
+  const problems = validateExchangeRates(table)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  try {
+    localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(table))
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save rates' }
+  }
+
+  listeners.forEach(listener => listener(table))
+  return { success: true }
+}
+
+export function resetExchangeRates(): void {
+  try {
+    localStorage.removeItem(RATES_STORAGE_KEY)
+  } catch {
+    // Nothing stored
+  }
+  listeners.forEach(listener => listener(DEFAULT_EXCHANGE_RATES))
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+function parseCsvRates(text: string): Record<string, number> {
+  const rates: Record<string, number> = {}
+  for (const line of text.split(/\r?\n/)) {
+    const [currency, rate] = line.split(/[,;\t]/).map(cell => cell.trim())
+    if (!currency || /^currency$/i.test(currency)) continue
+    rates[currency.toUpperCase()] = parseFloat(rate)
+  }
+  return rates
+}
+
+/**
+ * Parse an imported rate file. CSV files carry no date, so `asOf` defaults
+ * to today and can be changed before saving.
+ */
+export function parseExchangeRateImport(text: string, fileName?: string): RateImportResult {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    return { success: false, error: 'The file is empty' }
+  }
+
+  let table: ExchangeRateTable
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      const rates: Record<string, number> = {}
+      Object.entries(parsed.rates ?? {}).forEach(([currency, rate]) => {
+        rates[currency.toUpperCase()] = Number(rate)
+      })
+      table = { asOf: String(parsed.asOf ?? parsed.as_of ?? ''), rates, source: fileName }
+    } catch {
+      return { success: false, error: 'The file is not valid JSON' }
+    }
+  } else {
+    table = { asOf: new Date().toISOString().slice(0, 10), rates: parseCsvRates(trimmed), source: fileName }
+  }
+
+  const problems = validateExchangeRates(table)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+  return { success: true, data: table }
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Convert an amount into the reporting currency with the given rates
+ */
+export function convertToReporting(
+  amount: number,
+  currency: string,
+  table: ExchangeRateTable = getExchangeRates()
+): ConversionResult {
+  const code = currency || REPORTING_CURRENCY
+  const rate = code === REPORTING_CURRENCY ? 1 : table.rates[code]
+  if (!rate) {
+    return { success: false, error: `No exchange rate from ${code} to ${REPORTING_CURRENCY}. Ask finance to import one.` }
+  }
+  return {
+    success: true,
+    conversion: {
+      currency: REPORTING_CURRENCY,
+      amount: Math.round(amount * rate * 100) / 100,
+      rate,
+      ratesAsOf: table.asOf,
+    },
+  }
+}
+
+/**
+ * Amount in the reporting currency: the stored conversion once submitted,
+ * otherwise converted with the current rates (0 when no rate is known).
+ * Pass `table` when converting many expenses so the rates are read once.
+ */
+export function getReportingAmount(
+  expense: { form: ExpenseFormData; conversion?: CurrencyConversion },
+  table?: ExchangeRateTable
+): number {
+  if (expense.conversion) return expense.conversion.amount
+  const amount = parseFloat(expense.form.amount) || 0
+  return convertToReporting(amount, expense.form.currency, table).conversion?.amount ?? 0
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function useExchangeRates() {
+  const [table, setTable] = useState<ExchangeRateTable>(getExchangeRates)
+
+  useEffect(() => {
+    listeners.add(setTable)
+    return () => {
+      listeners.delete(setTable)
+    }
+  }, [])
+
+  return {
+    table,
+    saveRates: saveExchangeRates,
+    resetRates: resetExchangeRates,
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Expense Assistant Agent
+ *
+ * The agent that validates expense submissions against policy and answers
+ * policy questions. Single-expense submission, batch submission and the
+ * receipt scan all go through here so they send the same message.
+ *
+ * @example
+ * ```tsx
+ * const validation = await validateExpenseSubmission(formData, uploadedAssets)
+ * if (validation.success) {
+ *   validation.response.result.policy_validation.is_compliant
+ * }
+ * ```
+ */
+
+import { callAIAgent, type NormalizedAgentResponse } from '@/utils/aiAgent'
+import { buildSubmissionPayload, serializeSubmission } from '@/utils/submissionPayload'
+import type { ExpenseFormData, ExpenseResult } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// AGENT ID from response schema
+export const EXPENSE_AGENT_ID = '696f6413b50537828e0b1654'
+
+// "Expense Policies" knowledge base the agent answers from (workflow_state.json)
+export const EXPENSE_POLICY_RAG_ID = '696f640257f90ab8a46e8dd4'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExpenseAgentResponse extends NormalizedAgentResponse {
+  result: ExpenseResult
+}
+
+export interface SubmissionValidationResult {
+  success: boolean
+  response?: ExpenseAgentResponse
+  /** Version of the submission payload the agent validated */
+  payloadVersion?: number
+  error?: string
+}
+
+// =============================================================================
+// Submission
+// =============================================================================
+
+/**
+ * Send an expense to the agent for extraction and policy validation
+ */
+export async function validateExpenseSubmission(
+  form: ExpenseFormData,
+  receiptAssetIds: string[]
+): Promise<SubmissionValidationResult> {
+  const payload = buildSubmissionPayload(form, receiptAssetIds.length > 0)
+
+  try {
+    const result = await callAIAgent(
+      serializeSubmission(payload),
+      EXPENSE_AGENT_ID,
+      receiptAssetIds.length > 0 ? { assets: receiptAssetIds } : undefined
+    )
+
+    if (result.success && result.response.status === 'success') {
+      return { success: true, response: result.response as ExpenseAgentResponse, payloadVersion: payload.version }
+    }
+    return { success: false, error: result.response.message || 'Submission failed' }
+  } catch {
+    return { success: false, error: 'Network error during submission' }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Expense categories offered in the submission form and used by filters,
+ * approval chains and policy configuration
+ */
+export const EXPENSE_CATEGORIES = [
+  'Travel',
+  'Meals',
+  'Office Supplies',
+  'Software',
+  'Hardware',
+  'Training',
+  'Other'
+]
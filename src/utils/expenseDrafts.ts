@@ -0,0 +1,217 @@
+/**
+ * Expense Drafts
+ *
+ * Unsubmitted expenses saved as the user types, so a refresh doesn't lose
+ * the form or the uploaded receipt. Drafts are ordinary stored expenses in
+ * the Draft state; they keep their receipt asset ids and file, and become
+ * Submitted through submitSavedDraft.
+ *
+ * @example
+ * ```tsx
+ * const draftInput = useMemo(() => ({ form, receiptAssetIds, receiptFileName }), [...])
+ * const autosave = useDraftAutosave(draftInput, null)
+ * // autosave.status → 'saving' | 'saved'
+ * const draftId = await autosave.flush()
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { AppUser, ExpenseActor, ExpenseFormData, StoredExpense } from '@/types'
+import {
+  createDraftExpense,
+  getExpenseRepository,
+  useExpenses,
+  type CreateStoredExpenseInput,
+  type RepositoryResult,
+} from '@/utils/expenseRepository'
+import { submitDraftExpense, type TransitionResult } from '@/utils/expenseLifecycle'
+import { getCreator } from '@/utils/approvals'
+import { getCurrentUser, useCurrentUser } from '@/utils/currentUser'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const AUTOSAVE_DELAY_MS = 800
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DraftInput {
+  form: ExpenseFormData
+  receiptAssetIds: string[]
+  receiptFileName?: string
+  receiptHash?: string
+}
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Nothing worth saving yet: no field filled in and no receipt uploaded.
+ * The currency, expense type and trip choices always have a value, so they
+ * don't count; neither do the fields a trip expense derives from its details.
+ */
+export function isDraftEmpty(input: DraftInput): boolean {
+  const { vendor, date, amount, category, description, splits, mileage, perDiem } = input.form
+  const entered = mileage
+    ? [date, mileage.origin, mileage.destination, mileage.distance, mileage.purpose]
+    : perDiem
+      ? [perDiem.destination, perDiem.startDate, perDiem.endDate, perDiem.purpose]
+      : [vendor, date, amount, category]
+  return input.receiptAssetIds.length === 0
+    && !splits?.length
+    && [...entered, description].every(value => !value.trim())
+}
+
+/**
+ * Create a draft, or update an existing one. Refuses to overwrite an
+ * expense that has since been submitted.
+ */
+export async function saveDraftExpense(
+  draftId: string | null,
+  input: DraftInput,
+  user: AppUser
+): Promise<RepositoryResult<StoredExpense>> {
+  const repository = getExpenseRepository()
+
+  if (draftId) {
+    const loaded = await repository.get(draftId)
+    if (!loaded.success) {
+      return { success: false, error: loaded.error }
+    }
+    if (loaded.data && loaded.data.status !== 'Draft') {
+      return { success: false, error: 'This expense has already been submitted' }
+    }
+    if (loaded.data) {
+      return repository.save({ ...loaded.data, ...input, updatedAt: new Date().toISOString() })
+    }
+  }
+
+  const actor: ExpenseActor = { id: user.id, name: user.name }
+  return repository.save(createDraftExpense({ ...input, department: user.department }, actor))
+}
+
+export async function discardDraft(draftId: string): Promise<RepositoryResult<void>> {
+  return getExpenseRepository().remove(draftId)
+}
+
+/**
+ * Load a saved draft and submit it with its agent validation result
+ */
+export async function submitSavedDraft(
+  draftId: string,
+  input: Omit<CreateStoredExpenseInput, 'department'>,
+  actor: ExpenseActor
+): Promise<TransitionResult> {
+  const loaded = await getExpenseRepository().get(draftId)
+  if (!loaded.success) {
+    return { success: false, error: loaded.error }
+  }
+  if (!loaded.data) {
+    return { success: false, error: 'This draft no longer exists' }
+  }
+  return submitDraftExpense(loaded.data, input, actor)
+}
+
+// =============================================================================
+// React Hooks
+// =============================================================================
+
+/**
+ * Drafts created by the current user, most recently edited first
+ */
+export function useMyDrafts() {
+  const { user } = useCurrentUser()
+  const { expenses, loading, error } = useExpenses()
+
+  const drafts = expenses
+    .filter(expense => expense.status === 'Draft' && getCreator(expense)?.id === user.id)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+  return { drafts, loading, error }
+}
+
+/**
+ * Save `input` as a draft shortly after it stops changing. Pass a memoized
+ * input, or null to pause autosaving. `flush` saves any pending change now
+ * and resolves to the draft id; `detach` forgets the draft once submitted so
+ * later edits start a new one.
+ */
+export function useDraftAutosave(input: DraftInput | null, initialDraftId: string | null) {
+  const [draftId, setDraftId] = useState<string | null>(initialDraftId)
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const draftIdRef = useRef<string | null>(initialDraftId)
+  const lastSavedRef = useRef<string | null>(initialDraftId && input ? JSON.stringify(input) : null)
+  const pendingRef = useRef<DraftInput | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }
+
+  // Saves run one at a time so the first save's id is reused by the next
+  const save = useCallback((toSave: DraftInput) => {
+    queueRef.current = queueRef.current.then(async () => {
+      setStatus('saving')
+      const result = await saveDraftExpense(draftIdRef.current, toSave, getCurrentUser())
+      if (result.success) {
+        draftIdRef.current = result.data!.id
+        lastSavedRef.current = JSON.stringify(toSave)
+        setDraftId(result.data!.id)
+        setSavedAt(result.data!.updatedAt)
+        setStatus('saved')
+        setError(null)
+      } else {
+        setStatus('error')
+        setError(result.error || 'Draft could not be saved')
+      }
+    })
+    return queueRef.current
+  }, [])
+
+  useEffect(() => {
+    if (!input || isDraftEmpty(input) || JSON.stringify(input) === lastSavedRef.current) return
+
+    pendingRef.current = input
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      pendingRef.current = null
+      save(input)
+    }, AUTOSAVE_DELAY_MS)
+
+    return clearTimer
+  }, [input, save])
+
+  const flush = useCallback(async (): Promise<string | null> => {
+    clearTimer()
+    if (pendingRef.current) {
+      const pending = pendingRef.current
+      pendingRef.current = null
+      save(pending)
+    }
+    await queueRef.current
+    return draftIdRef.current
+  }, [save])
+
+  const detach = useCallback(() => {
+    clearTimer()
+    pendingRef.current = null
+    draftIdRef.current = null
+    setDraftId(null)
+    setStatus('idle')
+  }, [])
+
+  return { draftId, status, savedAt, error, flush, detach }
+}
@@ -0,0 +1,166 @@
+/**
+ * Expense Filters
+ *
+ * Filter state for the expense tracking view, kept in the URL query string so
+ * a filtered view can be bookmarked or shared.
+ *
+ * Query parameters:
+ * - `from`, `to`: inclusive date range (YYYY-MM-DD)
+ * - `min`, `max`: inclusive amount bounds in the reporting currency
+ * - `vendor`: case-insensitive vendor search
+ * - `category`, `status`: comma-separated lists; a split expense matches
+ *   any of its split categories
+ *
+ * @example
+ * ```tsx
+ * const { filters, setFilters } = useExpenseFilters()
+ * setFilters({ ...filters, statuses: ['Returned', 'Rejected'] })
+ * // → ?status=Returned,Rejected
+ * const visible = filterExpenses(expenses, filters, rates)
+ * ```
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { isValid, parseISO } from 'date-fns'
+import type { ExchangeRateTable, ExpenseStatus, StoredExpense } from '@/types'
+import { EXPENSE_STATUSES } from '@/utils/expenseLifecycle'
+import { getExpenseCategories } from '@/utils/expenseSplits'
+import { getExchangeRates, getReportingAmount } from '@/utils/exchangeRates'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExpenseFilters {
+  from?: string
+  to?: string
+  minAmount?: number
+  maxAmount?: number
+  vendor: string
+  categories: string[]
+  statuses: ExpenseStatus[]
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const EMPTY_EXPENSE_FILTERS: ExpenseFilters = {
+  vendor: '',
+  categories: [],
+  statuses: [],
+}
+
+const FILTER_PARAMS = ['from', 'to', 'min', 'max', 'vendor', 'category', 'status']
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function readList(params: URLSearchParams, key: string): string[] {
+  return (params.get(key) || '').split(',').map(value => value.trim()).filter(Boolean)
+}
+
+function readNumber(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key)
+  if (raw === null || raw.trim() === '') return undefined
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : undefined
+}
+
+// Calendar-checked too, so a shared link like from=2024-02-31 is dropped
+function readDate(params: URLSearchParams, key: string): string | undefined {
+  const raw = params.get(key)
+  return raw && DATE_PATTERN.test(raw) && isValid(parseISO(raw)) ? raw : undefined
+}
+
+/**
+ * Read filters from a query string. Unknown statuses and malformed values
+ * are dropped rather than rejected.
+ */
+export function parseExpenseFilters(params: URLSearchParams): ExpenseFilters {
+  return {
+    from: readDate(params, 'from'),
+    to: readDate(params, 'to'),
+    minAmount: readNumber(params, 'min'),
+    maxAmount: readNumber(params, 'max'),
+    vendor: params.get('vendor') || '',
+    categories: readList(params, 'category'),
+    statuses: readList(params, 'status')
+      .filter((status): status is ExpenseStatus => EXPENSE_STATUSES.includes(status as ExpenseStatus)),
+  }
+}
+
+/**
+ * Write filters into a copy of `params`, leaving unrelated parameters alone
+ */
+export function writeExpenseFilters(params: URLSearchParams, filters: ExpenseFilters): URLSearchParams {
+  const next = new URLSearchParams(params)
+  FILTER_PARAMS.forEach(key => next.delete(key))
+
+  if (filters.from) next.set('from', filters.from)
+  if (filters.to) next.set('to', filters.to)
+  if (filters.minAmount !== undefined) next.set('min', String(filters.minAmount))
+  if (filters.maxAmount !== undefined) next.set('max', String(filters.maxAmount))
+  if (filters.vendor.trim()) next.set('vendor', filters.vendor)
+  if (filters.categories.length > 0) next.set('category', filters.categories.join(','))
+  if (filters.statuses.length > 0) next.set('status', filters.statuses.join(','))
+
+  return next
+}
+
+export function countActiveFilters(filters: ExpenseFilters): number {
+  return [
+    filters.from || filters.to,
+    filters.minAmount !== undefined || filters.maxAmount !== undefined,
+    filters.vendor.trim(),
+    filters.categories.length > 0,
+    filters.statuses.length > 0,
+  ].filter(Boolean).length
+}
+
+/**
+ * Expenses matching the filters; amounts of unconverted expenses are
+ * compared at `rates`, read from storage once when not given
+ */
+export function filterExpenses(
+  expenses: StoredExpense[],
+  filters: ExpenseFilters,
+  rates: ExchangeRateTable = getExchangeRates()
+): StoredExpense[] {
+  const vendor = filters.vendor.trim().toLowerCase()
+
+  return expenses.filter(expense => {
+    const amount = getReportingAmount(expense, rates)
+    if (filters.from && expense.form.date < filters.from) return false
+    if (filters.to && expense.form.date > filters.to) return false
+    if (filters.minAmount !== undefined && amount < filters.minAmount) return false
+    if (filters.maxAmount !== undefined && amount > filters.maxAmount) return false
+    if (vendor && !expense.form.vendor.toLowerCase().includes(vendor)) return false
+    if (filters.categories.length > 0
+      && !getExpenseCategories(expense.form).some(category => filters.categories.includes(category))) return false
+    if (filters.statuses.length > 0 && !filters.statuses.includes(expense.status)) return false
+    return true
+  })
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function useExpenseFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo(() => parseExpenseFilters(searchParams), [searchParams])
+
+  const setFilters = useCallback((next: ExpenseFilters) => {
+    setSearchParams(prev => writeExpenseFilters(prev, next), { replace: true })
+  }, [setSearchParams])
+
+  const resetFilters = useCallback(() => setFilters(EMPTY_EXPENSE_FILTERS), [setFilters])
+
+  return { filters, setFilters, resetFilters }
+}
@@ -0,0 +1,322 @@
+/**
+ * Expense Lifecycle
+ *
+ * Typed state machine for an expense:
+ *
+ * ```
+ * Draft → Submitted → Pending Approval ─┬→ Approved → Reimbursed
+ *            ▲                          ├→ Rejected ─┐
+ *            ├──────── Returned ◄───────┘            │
+ *            └───────────────────────────────────────┘
+ * ```
+ *
+ * Every move is validated against ALLOWED_TRANSITIONS and appended to the
+ * expense's `history` with actor, time and an optional comment. Returned and
+ * rejected expenses go back to Submitted through `resubmitExpense`, which
+ * records the edited submission as a new version. Each submission is checked
+ * against the submission schema, converted into the reporting currency at
+ * the rates current at that time and run through the policy rules.
+ *
+ * @example
+ * ```tsx
+ * const result = transitionExpense(expense, 'Approved', toActor(getCurrentUser()), 'Looks good')
+ * if (result.success) {
+ *   await getExpenseRepository().save(result.expense)
+ * }
+ * ```
+ */
+
+import type { ExpenseActor, ExpenseFormData, ExpenseStatus, RuleEvaluation, StoredExpense } from '@/types'
+import { getExpenseRepository, createStoredExpense, type CreateStoredExpenseInput } from '@/utils/expenseRepository'
+import { SYSTEM_ACTOR } from '@/utils/currentUser'
+import { resolveApprovalChain } from '@/utils/approvalChains'
+import { createExpenseVersion } from '@/utils/expenseVersions'
+import { convertToReporting, type ConversionResult } from '@/utils/exchangeRates'
+import { getSubmissionProblems } from '@/utils/expenseSchema'
+import { evaluatePolicyRules } from '@/utils/policyRules'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * All statuses, in lifecycle order
+ */
+export const EXPENSE_STATUSES: ExpenseStatus[] = [
+  'Draft',
+  'Submitted',
+  'Pending Approval',
+  'Approved',
+  'Rejected',
+  'Returned',
+  'Reimbursed',
+]
+
+/**
+ * Legal next statuses for each status
+ */
+export const ALLOWED_TRANSITIONS: Record<ExpenseStatus, ExpenseStatus[]> = {
+  'Draft': ['Submitted'],
+  'Submitted': ['Pending Approval'],
+  'Pending Approval': ['Approved', 'Rejected', 'Returned'],
+  'Approved': ['Reimbursed'],
+  'Rejected': ['Submitted'],
+  'Returned': ['Submitted'],
+  'Reimbursed': [],
+}
+
+/**
+ * Badge presentation for each status (see components/ExpenseStatusBadge)
+ */
+export const STATUS_BADGES: Record<ExpenseStatus, {
+  variant: 'default' | 'secondary' | 'destructive' | 'outline'
+  className?: string
+}> = {
+  'Draft': { variant: 'outline' },
+  'Submitted': { variant: 'secondary' },
+  'Pending Approval': { variant: 'secondary' },
+  'Approved': { variant: 'default', className: 'bg-green-600' },
+  'Rejected': { variant: 'destructive' },
+  'Returned': { variant: 'outline', className: 'border-amber-500 text-amber-700' },
+  'Reimbursed': { variant: 'default', className: 'bg-blue-600' },
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TransitionResult {
+  success: boolean
+  expense?: StoredExpense
+  error?: string
+}
+
+// =============================================================================
+// State Machine
+// =============================================================================
+
+export function canTransition(from: ExpenseStatus, to: ExpenseStatus): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export function getAvailableTransitions(status: ExpenseStatus): ExpenseStatus[] {
+  return ALLOWED_TRANSITIONS[status] ?? []
+}
+
+/**
+ * Move an expense to a new status. Pure: returns an updated copy and leaves
+ * the input untouched.
+ */
+export function transitionExpense(
+  expense: StoredExpense,
+  to: ExpenseStatus,
+  actor: ExpenseActor,
+  comment?: string
+): TransitionResult {
+  if (!canTransition(expense.status, to)) {
+    return {
+      success: false,
+      error: `Cannot move an expense from ${expense.status} to ${to}`,
+    }
+  }
+
+  const at = new Date().toISOString()
+  const trimmedComment = comment?.trim()
+
+  return {
+    success: true,
+    expense: {
+      ...expense,
+      status: to,
+      history: [
+        ...expense.history,
+        {
+          from: expense.status,
+          to,
+          actor,
+          at,
+          ...(trimmedComment ? { comment: trimmedComment } : {}),
+        },
+      ],
+      updatedAt: at,
+    },
+  }
+}
+
+/**
+ * Load, transition and persist an expense in one step
+ */
+export async function transitionStoredExpense(
+  id: string,
+  to: ExpenseStatus,
+  actor: ExpenseActor,
+  comment?: string
+): Promise<TransitionResult> {
+  const repository = getExpenseRepository()
+
+  const loaded = await repository.get(id)
+  if (!loaded.success) {
+    return { success: false, error: loaded.error }
+  }
+  if (!loaded.data) {
+    return { success: false, error: `Expense ${id} not found` }
+  }
+
+  const result = transitionExpense(loaded.data, to, actor, comment)
+  if (!result.success) {
+    return result
+  }
+
+  const saved = await repository.save(result.expense!)
+  if (!saved.success) {
+    return { success: false, error: saved.error }
+  }
+
+  return { success: true, expense: saved.data }
+}
+
+/**
+ * Whether an expense can be edited and sent back for approval
+ */
+export function canResubmit(expense: StoredExpense): boolean {
+  return expense.status !== 'Draft' && canTransition(expense.status, 'Submitted')
+}
+
+/**
+ * Check a submission against the schema, then convert the submitted amount
+ * into the reporting currency at today's rates
+ */
+function convertSubmission(form: ExpenseFormData, receiptAssetIds: string[]): ConversionResult {
+  const problems = getSubmissionProblems(form, { hasReceipt: receiptAssetIds.length > 0 })
+  if (problems.length > 0) {
+    return { success: false, error: problems.map(problem => problem.message).join('; ') }
+  }
+  return convertToReporting(parseFloat(form.amount) || 0, form.currency)
+}
+
+/**
+ * Run the policy rules on a converted submission
+ */
+function evaluateSubmission(input: Omit<CreateStoredExpenseInput, 'department'>, reportingAmount: number): RuleEvaluation {
+  return evaluatePolicyRules({
+    form: input.form,
+    hasReceipt: input.receiptAssetIds.length > 0,
+    items: input.result.expense_details?.items ?? [],
+    reportingAmount,
+    submittedAt: new Date().toISOString(),
+  })
+}
+
+/**
+ * Resolve the approval chain of a submitted expense and hand it to the
+ * first approver
+ */
+async function queueForApproval(submitted: StoredExpense): Promise<TransitionResult> {
+  const routed = { ...submitted, approvalChain: resolveApprovalChain(submitted) }
+
+  const queued = transitionExpense(
+    routed,
+    'Pending Approval',
+    SYSTEM_ACTOR,
+    `Routed via ${routed.approvalChain.ruleName}`
+  )
+  if (!queued.success) {
+    return queued
+  }
+
+  const saved = await getExpenseRepository().save(queued.expense!)
+  if (!saved.success) {
+    return { success: false, error: saved.error }
+  }
+
+  return { success: true, expense: saved.data }
+}
+
+/**
+ * Persist a freshly submitted expense, resolve its approval chain and queue
+ * it for the first approver
+ */
+export async function submitNewExpense(
+  input: CreateStoredExpenseInput,
+  actor: ExpenseActor
+): Promise<TransitionResult> {
+  const converted = convertSubmission(input.form, input.receiptAssetIds)
+  if (!converted.success) {
+    return { success: false, error: converted.error }
+  }
+  const ruleEvaluation = evaluateSubmission(input, converted.conversion.amount)
+  return queueForApproval(createStoredExpense({ ...input, conversion: converted.conversion, ruleEvaluation }, actor))
+}
+
+/**
+ * Store a validated submission as the expense's next version, move it to
+ * Submitted and route it for approval
+ */
+async function submitVersion(
+  expense: StoredExpense,
+  input: Omit<CreateStoredExpenseInput, 'department'>,
+  actor: ExpenseActor,
+  comment?: string
+): Promise<TransitionResult> {
+  const converted = convertSubmission(input.form, input.receiptAssetIds)
+  if (!converted.success) {
+    return { success: false, error: converted.error }
+  }
+
+  const ruleEvaluation = evaluateSubmission(input, converted.conversion.amount)
+  const version = createExpenseVersion(
+    { ...input, conversion: converted.conversion, ruleEvaluation },
+    expense.versions.length + 1,
+    actor
+  )
+  const edited: StoredExpense = {
+    ...expense,
+    form: input.form,
+    receiptAssetIds: input.receiptAssetIds,
+    receiptFileName: input.receiptFileName,
+    receiptHash: input.receiptHash,
+    result: input.result,
+    splitValidations: input.splitValidations,
+    payloadVersion: input.payloadVersion,
+    conversion: converted.conversion,
+    ruleEvaluation,
+    duplicateOverride: input.duplicateOverride,
+    versions: [...expense.versions, version],
+  }
+
+  const submitted = transitionExpense(edited, 'Submitted', actor, comment)
+  if (!submitted.success) {
+    return submitted
+  }
+
+  return queueForApproval(submitted.expense!)
+}
+
+/**
+ * Submit a Draft expense once the agent has validated it
+ */
+export async function submitDraftExpense(
+  draft: StoredExpense,
+  input: Omit<CreateStoredExpenseInput, 'department'>,
+  actor: ExpenseActor
+): Promise<TransitionResult> {
+  if (draft.status !== 'Draft') {
+    return { success: false, error: `Only drafts can be submitted this way, not a ${draft.status} expense` }
+  }
+  return submitVersion(draft, input, actor)
+}
+
+/**
+ * Record an edited submission of a returned or rejected expense as a new
+ * version and route it through approval again. Earlier versions are kept.
+ */
+export async function resubmitExpense(
+  expense: StoredExpense,
+  input: Omit<CreateStoredExpenseInput, 'department'>,
+  actor: ExpenseActor
+): Promise<TransitionResult> {
+  if (!canResubmit(expense)) {
+    return { success: false, error: `A ${expense.status} expense cannot be resubmitted` }
+  }
+  return submitVersion(expense, input, actor, `Resubmitted as version ${expense.versions.length + 1}`)
+}
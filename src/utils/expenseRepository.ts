@@ -0,0 +1,497 @@
+/**
+ * Expense Repository
+ *
+ * Persistence layer for submitted expenses. The default implementation is
+ * backed by IndexedDB so expenses survive page reloads. Set
+ * `VITE_EXPENSE_STORE=server` to use the local dev server (`npm run server`)
+ * instead, which shares expenses between browsers.
+ *
+ * All methods resolve to a result object and never throw:
+ * ```typescript
+ * { success: boolean, data?: T, error?: string }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * import { getExpenseRepository, createStoredExpense } from '@/utils/expenseRepository'
+ *
+ * const repository = getExpenseRepository()
+ * await repository.save(createStoredExpense({ form, receiptAssetIds, result }, actor))
+ *
+ * const { data: expenses } = await repository.list()
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type {
+  CurrencyConversion,
+  DuplicateOverride,
+  ExpenseActor,
+  ExpenseFormData,
+  ExpenseResult,
+  RuleEvaluation,
+  SplitValidations,
+  StoredExpense,
+} from '@/types'
+import { generateId } from '@/utils'
+import { createExpenseVersion, initialVersionFromExpense } from '@/utils/expenseVersions'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'expenseflow'
+const DB_VERSION = 2
+const EXPENSE_STORE = 'expenses'
+const RECEIPT_STORE = 'receipts'
+
+const EXPENSE_API_URL = '/api/expenses'
+const USE_SERVER_STORE = import.meta.env.VITE_EXPENSE_STORE === 'server'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RepositoryResult<T> {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Storage-agnostic contract used by the UI to read and write expenses
+ */
+export interface ExpenseRepository {
+  /** All stored expenses, newest first */
+  list(): Promise<RepositoryResult<StoredExpense[]>>
+  /** A single expense, or null when the id is unknown */
+  get(id: string): Promise<RepositoryResult<StoredExpense | null>>
+  /** Insert or replace an expense */
+  save(expense: StoredExpense): Promise<RepositoryResult<StoredExpense>>
+  /** Delete an expense (and its receipt file) by id */
+  remove(id: string): Promise<RepositoryResult<void>>
+  /** Store the original receipt file for an expense */
+  saveReceipt(expenseId: string, file: File): Promise<RepositoryResult<void>>
+  /** The original receipt file, or null when none was stored */
+  getReceipt(expenseId: string): Promise<RepositoryResult<File | null>>
+}
+
+export interface CreateStoredExpenseInput {
+  form: ExpenseFormData
+  department: string
+  receiptAssetIds: string[]
+  receiptFileName?: string
+  receiptHash?: string
+  result: ExpenseResult
+  splitValidations?: SplitValidations
+  /** Submission payload version the agent validated */
+  payloadVersion?: number
+  /** Set by the lifecycle from the current exchange rates on submission */
+  conversion?: CurrencyConversion
+  /** Set by the lifecycle from the policy rules on submission */
+  ruleEvaluation?: RuleEvaluation
+  duplicateOverride?: DuplicateOverride
+}
+
+export type CreateDraftExpenseInput = Omit<CreateStoredExpenseInput, 'result' | 'splitValidations' | 'payloadVersion' | 'conversion' | 'ruleEvaluation'>
+
+// =============================================================================
+// Change Notifications
+// =============================================================================
+
+const listeners = new Set<() => void>()
+
+/**
+ * Subscribe to repository writes. Returns an unsubscribe function.
+ */
+export function subscribeToExpenses(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener())
+}
+
+// =============================================================================
+// IndexedDB Helpers
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(EXPENSE_STORE)) {
+        db.createObjectStore(EXPENSE_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(RECEIPT_STORE)) {
+        db.createObjectStore(RECEIPT_STORE, { keyPath: 'expenseId' })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = EXPENSE_STORE
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  return requestToPromise(run(transaction.objectStore(storeName)))
+}
+
+function toErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Fill in fields added after an expense was first stored
+ */
+function withDefaults(expense: StoredExpense): StoredExpense {
+  return {
+    ...expense,
+    form: { ...expense.form, currency: expense.form.currency || REPORTING_CURRENCY },
+    history: expense.history ?? [],
+    department: expense.department ?? '',
+    versions: expense.versions?.length || !expense.result ? (expense.versions ?? []) : [initialVersionFromExpense(expense)],
+  }
+}
+
+// =============================================================================
+// IndexedDB Implementation
+// =============================================================================
+
+export function createIndexedDBExpenseRepository(): ExpenseRepository {
+  return {
+    async list() {
+      try {
+        const expenses = await withStore<StoredExpense[]>('readonly', store => store.getAll())
+        expenses.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        return { success: true, data: expenses.map(withDefaults) }
+      } catch (error) {
+        console.error('List expenses failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load expenses') }
+      }
+    },
+
+    async get(id) {
+      try {
+        const expense = await withStore<StoredExpense | undefined>('readonly', store => store.get(id))
+        return { success: true, data: expense ? withDefaults(expense) : null }
+      } catch (error) {
+        console.error('Get expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load expense') }
+      }
+    },
+
+    async save(expense) {
+      try {
+        await withStore('readwrite', store => store.put(expense))
+        notifyListeners()
+        return { success: true, data: expense }
+      } catch (error) {
+        console.error('Save expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to save expense') }
+      }
+    },
+
+    async remove(id) {
+      try {
+        await withStore('readwrite', store => store.delete(id))
+        await withStore('readwrite', store => store.delete(id), RECEIPT_STORE)
+        notifyListeners()
+        return { success: true }
+      } catch (error) {
+        console.error('Delete expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to delete expense') }
+      }
+    },
+
+    async saveReceipt(expenseId, file) {
+      try {
+        await withStore('readwrite', store => store.put({ expenseId, file }), RECEIPT_STORE)
+        return { success: true }
+      } catch (error) {
+        console.error('Save receipt failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to save receipt') }
+      }
+    },
+
+    async getReceipt(expenseId) {
+      try {
+        const record = await withStore<{ expenseId: string; file: File } | undefined>(
+          'readonly',
+          store => store.get(expenseId),
+          RECEIPT_STORE
+        )
+        return { success: true, data: record?.file ?? null }
+      } catch (error) {
+        console.error('Get receipt failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load receipt') }
+      }
+    },
+  }
+}
+
+// =============================================================================
+// HTTP Implementation (local dev server)
+// =============================================================================
+
+async function requestJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Accept': 'application/json',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || data.success === false) {
+    throw new Error(data.error || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+export function createHttpExpenseRepository(baseUrl: string = EXPENSE_API_URL): ExpenseRepository {
+  const expenseUrl = (id: string) => `${baseUrl}/${encodeURIComponent(id)}`
+
+  return {
+    async list() {
+      try {
+        const data = await requestJson(baseUrl)
+        return { success: true, data: (data.expenses || []).map(withDefaults) }
+      } catch (error) {
+        console.error('List expenses failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load expenses') }
+      }
+    },
+
+    async get(id) {
+      try {
+        const response = await fetch(expenseUrl(id), { headers: { 'Accept': 'application/json' } })
+        if (response.status === 404) {
+          return { success: true, data: null }
+        }
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || `Request failed with status ${response.status}`)
+        }
+        return { success: true, data: withDefaults(data.expense) }
+      } catch (error) {
+        console.error('Get expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load expense') }
+      }
+    },
+
+    async save(expense) {
+      try {
+        const data = await requestJson(expenseUrl(expense.id), {
+          method: 'PUT',
+          body: JSON.stringify(expense),
+        })
+        notifyListeners()
+        return { success: true, data: data.expense }
+      } catch (error) {
+        console.error('Save expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to save expense') }
+      }
+    },
+
+    async remove(id) {
+      try {
+        await requestJson(expenseUrl(id), { method: 'DELETE' })
+        notifyListeners()
+        return { success: true }
+      } catch (error) {
+        console.error('Delete expense failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to delete expense') }
+      }
+    },
+
+    async saveReceipt(expenseId, file) {
+      try {
+        const response = await fetch(`${expenseUrl(expenseId)}/receipt`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': file.type || 'application/octet-stream',
+            'X-File-Name': encodeURIComponent(file.name),
+          },
+          body: file,
+        })
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || `Request failed with status ${response.status}`)
+        }
+        return { success: true }
+      } catch (error) {
+        console.error('Save receipt failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to save receipt') }
+      }
+    },
+
+    async getReceipt(expenseId) {
+      try {
+        const response = await fetch(`${expenseUrl(expenseId)}/receipt`)
+        if (response.status === 404) {
+          return { success: true, data: null }
+        }
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        const blob = await response.blob()
+        const fileName = decodeURIComponent(response.headers.get('X-File-Name') || 'receipt')
+        return { success: true, data: new File([blob], fileName, { type: blob.type }) }
+      } catch (error) {
+        console.error('Get receipt failed:', error)
+        return { success: false, error: toErrorMessage(error, 'Failed to load receipt') }
+      }
+    },
+  }
+}
+
+// =============================================================================
+// Repository Access
+// =============================================================================
+
+let repository: ExpenseRepository | null = null
+
+/**
+ * Get the application-wide expense repository
+ */
+export function getExpenseRepository(): ExpenseRepository {
+  if (!repository) {
+    repository = USE_SERVER_STORE
+      ? createHttpExpenseRepository()
+      : createIndexedDBExpenseRepository()
+  }
+  return repository
+}
+
+/**
+ * Build a new stored expense from a successful submission, in the Submitted
+ * state. Use submitNewExpense (utils/expenseLifecycle) to also route it for
+ * approval and persist it.
+ */
+export function createStoredExpense(input: CreateStoredExpenseInput, actor: ExpenseActor): StoredExpense {
+  const now = new Date().toISOString()
+  return {
+    id: generateId(),
+    form: input.form,
+    receiptAssetIds: input.receiptAssetIds,
+    receiptFileName: input.receiptFileName,
+    receiptHash: input.receiptHash,
+    result: input.result,
+    splitValidations: input.splitValidations,
+    payloadVersion: input.payloadVersion,
+    conversion: input.conversion,
+    ruleEvaluation: input.ruleEvaluation,
+    duplicateOverride: input.duplicateOverride,
+    status: 'Submitted',
+    history: [{ from: null, to: 'Submitted', actor, at: now }],
+    department: input.department,
+    versions: [createExpenseVersion(input, 1, actor, now)],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Build a new Draft expense that has not been validated or submitted yet.
+ * Submit it later with submitDraftExpense (utils/expenseLifecycle).
+ */
+export function createDraftExpense(input: CreateDraftExpenseInput, actor: ExpenseActor): StoredExpense {
+  const now = new Date().toISOString()
+  return {
+    id: generateId(),
+    form: input.form,
+    receiptAssetIds: input.receiptAssetIds,
+    receiptFileName: input.receiptFileName,
+    receiptHash: input.receiptHash,
+    status: 'Draft',
+    history: [{ from: null, to: 'Draft', actor, at: now }],
+    department: input.department,
+    versions: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+/**
+ * Hook for reading stored expenses in React components.
+ * Re-reads automatically whenever the repository is written to.
+ *
+ * @example
+ * ```tsx
+ * const { expenses, loading, error } = useExpenses()
+ * ```
+ */
+export function useExpenses() {
+  const [expenses, setExpenses] = useState<StoredExpense[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const result = await getExpenseRepository().list()
+
+    if (result.success) {
+      setExpenses(result.data || [])
+      setError(null)
+    } else {
+      setError(result.error || 'Failed to load expenses')
+    }
+
+    setLoading(false)
+    return result
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return subscribeToExpenses(() => {
+      refresh()
+    })
+  }, [refresh])
+
+  return {
+    expenses,
+    loading,
+    error,
+    refresh,
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Expense Submission Schema
+ *
+ * Field-level rules an expense must meet before it goes to the agent. The
+ * submission form validates against this schema through react-hook-form,
+ * batch rows and the lifecycle check the same rules, and stored expenses can
+ * be re-checked as of the day they were submitted:
+ *
+ * - No future dates, and receipts no older than MAX_RECEIPT_AGE_DAYS
+ * - Amounts above zero
+ * - A description above DESCRIPTION_REQUIRED_ABOVE (in the reporting currency)
+ * - Per-category requirements from CATEGORY_REQUIREMENTS
+ * - Mileage, per diem and split details complete
+ *
+ * @example
+ * ```tsx
+ * const problems = getSubmissionProblems(formData, { hasReceipt: true })
+ * // [{ field: 'description', message: 'List the attendees and business purpose' }]
+ * ```
+ */
+
+import { z } from 'zod'
+import type { CurrencyConversion, ExpenseFormData, StoredExpense } from '@/types'
+import { REPORTING_CURRENCY, formatMoney } from '@/utils/currency'
+import { getReportingAmount } from '@/utils/exchangeRates'
+import { getExpenseCategories, validateSplits } from '@/utils/expenseSplits'
+import { validateMileage } from '@/utils/mileage'
+import { validatePerDiem } from '@/utils/perDiem'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Oldest receipt, in days before submission, that can still be claimed */
+export const MAX_RECEIPT_AGE_DAYS = 90
+
+/** Expenses above this amount (reporting currency) need a description */
+export const DESCRIPTION_REQUIRED_ABOVE = 75
+
+/**
+ * Extra requirements by category. `description` is the prompt shown when
+ * the description is missing; `receipt` requires an attached receipt.
+ */
+export const CATEGORY_REQUIREMENTS: Record<string, { description?: string; receipt?: boolean }> = {
+  Meals: { description: 'List the attendees and business purpose' },
+  Training: { description: 'Name the course or event' },
+  Hardware: { receipt: true },
+  Software: { receipt: true },
+  Other: { description: 'Describe what this expense is for' },
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SubmissionContext {
+  /** Whether a receipt is attached */
+  hasReceipt: boolean
+  /** Day the rules are applied on (YYYY-MM-DD); defaults to today */
+  asOf?: string
+  /** Conversion recorded at submission, used instead of today's rates */
+  conversion?: CurrencyConversion
+}
+
+export interface SubmissionProblem {
+  /** Form field the problem belongs to, e.g. 'date', 'mileage' or 'receipt' */
+  field: string
+  message: string
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+/**
+ * Schema for a submission checked on `context.asOf`
+ */
+export function expenseSubmissionSchema(context: SubmissionContext): z.ZodType<ExpenseFormData, ExpenseFormData> {
+  const asOf = context.asOf ?? new Date().toISOString().slice(0, 10)
+
+  return z.looseObject({
+    vendor: z.string().trim().min(1, 'Enter the vendor'),
+    date: z.iso.date('Enter the expense date')
+      .refine(date => date <= asOf, 'The date cannot be in the future'),
+    amount: z.string().refine(amount => parseFloat(amount) > 0, 'Enter an amount above zero'),
+    currency: z.string().min(1, 'Choose a currency'),
+    category: z.string().min(1, 'Choose a category'),
+    description: z.string(),
+  }).superRefine((fields, ctx) => {
+    const form = fields as unknown as ExpenseFormData
+    const addIssue = (field: string, message: string) => ctx.addIssue({ code: 'custom', path: [field], message })
+
+    if (form.type === 'mileage') {
+      validateMileage(form).forEach(message => addIssue('mileage', message))
+    } else if (form.type === 'per_diem') {
+      validatePerDiem(form).forEach(message => addIssue('perDiem', message))
+      if (form.perDiem?.endDate > asOf) addIssue('perDiem', 'Claim per diem once the trip is over')
+    } else {
+      validateSplits(form).forEach(message => addIssue('splits', message))
+      if (form.date && form.date <= asOf && daysBetween(form.date, asOf) > MAX_RECEIPT_AGE_DAYS) {
+        addIssue('date', `Receipts older than ${MAX_RECEIPT_AGE_DAYS} days cannot be claimed`)
+      }
+    }
+
+    const hasDescription = form.description.trim().length > 0
+    const reportingAmount = getReportingAmount({ form, conversion: context.conversion })
+    if (!hasDescription && reportingAmount > DESCRIPTION_REQUIRED_ABOVE) {
+      addIssue('description', `Describe the business purpose of expenses over ${formatMoney(DESCRIPTION_REQUIRED_ABOVE, REPORTING_CURRENCY)}`)
+    }
+
+    getExpenseCategories(form).forEach(category => {
+      const requirement = CATEGORY_REQUIREMENTS[category]
+      if (!requirement) return
+      if (requirement.description && !hasDescription) addIssue('description', requirement.description)
+      if (requirement.receipt && !context.hasReceipt && (form.type ?? 'receipt') === 'receipt') {
+        addIssue('receipt', `${category} expenses need a receipt`)
+      }
+    })
+  })
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Every rule a submission breaks; empty when it can be submitted
+ */
+export function getSubmissionProblems(form: ExpenseFormData, context: SubmissionContext): SubmissionProblem[] {
+  const parsed = expenseSubmissionSchema(context).safeParse(form)
+  if (parsed.success) return []
+  return parsed.error.issues.map(issue => ({ field: String(issue.path[0] ?? 'form'), message: issue.message }))
+}
+
+/**
+ * Re-check a stored expense against the rules as of its latest submission
+ * (or its last edit, for a draft)
+ */
+export function validateStoredExpense(expense: StoredExpense): SubmissionProblem[] {
+  const latest = expense.versions[expense.versions.length - 1]
+  return getSubmissionProblems(expense.form, {
+    hasReceipt: expense.receiptAssetIds.length > 0,
+    asOf: (latest?.submittedAt ?? expense.updatedAt).slice(0, 10),
+    conversion: expense.conversion,
+  })
+}
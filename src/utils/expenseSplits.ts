@@ -0,0 +1,285 @@
+/**
+ * Expense Splits
+ *
+ * Line-level allocation of one receipt across categories and cost centers,
+ * e.g. a hotel bill split into lodging, meals and parking. Split amounts must
+ * add up to the receipt total to the cent, and each split is checked against
+ * policy on its own so a meal limit applies to the meals, not the whole bill.
+ *
+ * @example
+ * ```tsx
+ * const problems = validateSplits(form)
+ * if (problems.length === 0) {
+ *   const checked = await validateSplitPolicies(form, uploadedAssets)
+ *   // checked.data → { [splitId]: PolicyValidation }
+ * }
+ * ```
+ */
+
+import type {
+  ExpenseFormData,
+  ExpenseResult,
+  ExpenseSplit,
+  NormalizedPolicyValidation,
+  PolicyFinding,
+  RuleEvaluation,
+  SplitValidations,
+} from '@/types'
+import { generateId } from '@/utils'
+import { validateExpenseSubmission } from '@/utils/expenseAgent'
+import { formatMoney } from '@/utils/currency'
+import { normalizePolicyValidation, ruleFindingToPolicyFinding } from '@/utils/policyFindings'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface CostCenter {
+  code: string
+  name: string
+}
+
+export const COST_CENTERS: CostCenter[] = [
+  { code: 'CC-100', name: 'Engineering' },
+  { code: 'CC-200', name: 'Sales' },
+  { code: 'CC-300', name: 'Marketing' },
+  { code: 'CC-400', name: 'Operations' },
+  { code: 'CC-500', name: 'Finance' },
+  { code: 'CC-600', name: 'Executive' },
+  { code: 'CC-900', name: 'Client Rebillable' },
+]
+
+const MIN_SPLITS = 2
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SplitAllocation {
+  totalCents: number
+  allocatedCents: number
+  /** Positive when splits fall short of the total, negative when over */
+  remainingCents: number
+}
+
+export interface SplitPolicyResult {
+  success: boolean
+  data?: SplitValidations
+  error?: string
+}
+
+/** Anything carrying a form and its agent verdicts: an expense or a version */
+interface ValidatedSubmission {
+  form: ExpenseFormData
+  result?: ExpenseResult
+  splitValidations?: SplitValidations
+  ruleEvaluation?: RuleEvaluation
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toCents(amount: string): number {
+  const value = parseFloat(amount)
+  return Number.isFinite(value) ? Math.round(value * 100) : 0
+}
+
+export function formatCents(cents: number, currency: string): string {
+  return formatMoney(cents / 100, currency)
+}
+
+export function isSplit(form: ExpenseFormData): boolean {
+  return (form.splits?.length ?? 0) > 0
+}
+
+/**
+ * Cost center that matches a department, falling back to the first one
+ */
+export function defaultCostCenter(department: string): string {
+  return (COST_CENTERS.find(center => center.name === department) ?? COST_CENTERS[0]).code
+}
+
+export function costCenterLabel(code: string): string {
+  const center = COST_CENTERS.find(candidate => candidate.code === code)
+  return center ? `${center.code} · ${center.name}` : code
+}
+
+export function createSplit(fields: Partial<Omit<ExpenseSplit, 'id'>> = {}): ExpenseSplit {
+  return {
+    id: generateId(),
+    description: '',
+    amount: '',
+    category: '',
+    costCenter: '',
+    ...fields,
+  }
+}
+
+/**
+ * Starting splits for a receipt: one per extracted line item, or the whole
+ * amount plus an empty line when the receipt listed none
+ */
+export function initialSplits(form: ExpenseFormData, items: string[], costCenter: string): ExpenseSplit[] {
+  if (items.length >= MIN_SPLITS) {
+    return items.map(item => createSplit({ description: item, category: form.category, costCenter }))
+  }
+  return [
+    createSplit({ description: items[0] ?? '', amount: form.amount, category: form.category, costCenter }),
+    createSplit({ costCenter }),
+  ]
+}
+
+export function getSplitAllocation(form: ExpenseFormData): SplitAllocation {
+  const totalCents = toCents(form.amount)
+  const allocatedCents = (form.splits ?? []).reduce((sum, split) => sum + toCents(split.amount), 0)
+  return { totalCents, allocatedCents, remainingCents: totalCents - allocatedCents }
+}
+
+/**
+ * Category carrying the largest share of the amount; used as the expense's
+ * category for routing and display
+ */
+export function primarySplitCategory(splits: ExpenseSplit[]): string {
+  const totals = new Map<string, number>()
+  for (const split of splits) {
+    if (!split.category) continue
+    totals.set(split.category, (totals.get(split.category) ?? 0) + toCents(split.amount))
+  }
+  let primary = ''
+  let largest = -1
+  totals.forEach((cents, category) => {
+    if (cents > largest) {
+      primary = category
+      largest = cents
+    }
+  })
+  return primary
+}
+
+/**
+ * Every category an expense is filed under: its splits' or its own
+ */
+export function getExpenseCategories(form: ExpenseFormData): string[] {
+  if (!isSplit(form)) return [form.category]
+  return Array.from(new Set(form.splits!.map(split => split.category).filter(Boolean)))
+}
+
+/**
+ * Problems that block submitting a split expense; empty when valid or not split
+ */
+export function validateSplits(form: ExpenseFormData): string[] {
+  if (!isSplit(form)) return []
+
+  const splits = form.splits!
+  const problems: string[] = []
+  if (splits.length < MIN_SPLITS) {
+    problems.push(`Split the receipt into at least ${MIN_SPLITS} lines, or remove the split`)
+  }
+  splits.forEach((split, index) => {
+    const line = `Split ${index + 1}`
+    if (toCents(split.amount) <= 0) problems.push(`${line} needs an amount above zero`)
+    if (!split.category) problems.push(`${line} needs a category`)
+    if (!split.costCenter) problems.push(`${line} needs a cost center`)
+  })
+
+  const { remainingCents } = getSplitAllocation(form)
+  if (remainingCents > 0) {
+    problems.push(`Splits are ${formatCents(remainingCents, form.currency)} short of the ${formatCents(toCents(form.amount), form.currency)} total`)
+  } else if (remainingCents < 0) {
+    problems.push(`Splits are ${formatCents(-remainingCents, form.currency)} over the ${formatCents(toCents(form.amount), form.currency)} total`)
+  }
+  return problems
+}
+
+// =============================================================================
+// Policy Checks
+// =============================================================================
+
+/**
+ * The form the agent sees when checking one split on its own
+ */
+export function splitCheckForm(form: ExpenseFormData, split: ExpenseSplit, index: number): ExpenseFormData {
+  const context = `Split ${index + 1} of ${form.splits!.length} of a ${formatCents(toCents(form.amount), form.currency)} receipt, cost center ${split.costCenter}`
+  return {
+    vendor: form.vendor,
+    date: form.date,
+    amount: split.amount,
+    currency: form.currency,
+    category: split.category,
+    description: [split.description, form.description, context].filter(Boolean).join('. '),
+  }
+}
+
+/**
+ * Check every split against policy separately, in parallel. Fails if any
+ * check fails so an expense is never stored with a partial verdict.
+ */
+export async function validateSplitPolicies(
+  form: ExpenseFormData,
+  receiptAssetIds: string[]
+): Promise<SplitPolicyResult> {
+  const splits = form.splits ?? []
+  const checks = await Promise.all(
+    splits.map((split, index) => validateExpenseSubmission(splitCheckForm(form, split, index), receiptAssetIds))
+  )
+
+  const failed = checks.findIndex(check => !check.success)
+  if (failed >= 0) {
+    return { success: false, error: `Split ${failed + 1}: ${checks[failed].error || 'Policy check failed'}` }
+  }
+
+  const data: SplitValidations = {}
+  splits.forEach((split, index) => {
+    data[split.id] = checks[index].response!.result.policy_validation
+  })
+  return { success: true, data }
+}
+
+/**
+ * The agent's receipt-level verdict combined with every split verdict, with
+ * findings normalized. Split findings are prefixed with the split they came
+ * from.
+ */
+export function agentPolicyValidation(submission: ValidatedSubmission): NormalizedPolicyValidation | undefined {
+  const overall = submission.result?.policy_validation
+  if (!overall) return undefined
+
+  const splits = submission.form.splits ?? []
+  const combined = normalizePolicyValidation(overall)
+
+  for (const split of splits) {
+    const raw = submission.splitValidations?.[split.id]
+    if (!raw) continue
+    const verdict = normalizePolicyValidation(raw)
+    const prefix = `${split.category} split (${formatCents(toCents(split.amount), submission.form.currency)})`
+    const fromSplit = (finding: PolicyFinding) => ({ ...finding, message: `${prefix}: ${finding.message}` })
+    combined.is_compliant = combined.is_compliant && verdict.is_compliant
+    combined.approval_required = combined.approval_required || verdict.approval_required
+    combined.violations.push(...verdict.violations.map(fromSplit))
+    combined.warnings.push(...verdict.warnings.map(fromSplit))
+  }
+  return combined
+}
+
+/**
+ * The agent's verdict with the policy rule findings merged in. Any rule
+ * violation makes the expense non-compliant and needing approval.
+ */
+export function combinedPolicyValidation(submission: ValidatedSubmission): NormalizedPolicyValidation | undefined {
+  const agent = agentPolicyValidation(submission)
+  if (!agent || !submission.ruleEvaluation) return agent
+
+  const { findings, ruleSetVersion } = submission.ruleEvaluation
+  const describe = (severity: string) => findings
+    .filter(finding => finding.severity === severity)
+    .map(finding => ruleFindingToPolicyFinding(finding, ruleSetVersion))
+  const violations = describe('violation')
+
+  return {
+    is_compliant: agent.is_compliant && violations.length === 0,
+    violations: [...agent.violations, ...violations],
+    warnings: [...agent.warnings, ...describe('warning')],
+    approval_required: agent.approval_required || violations.length > 0,
+  }
+}
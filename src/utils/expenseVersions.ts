@@ -0,0 +1,117 @@
+/**
+ * Expense Versions
+ *
+ * Helpers for the submission history kept on each stored expense, and a
+ * field-level diff between two versions for the detail view.
+ *
+ * @example
+ * ```tsx
+ * const [previous, current] = expense.versions.slice(-2)
+ * diffExpenseVersions(previous, current)
+ * // [{ field: 'amount', label: 'Amount', before: '120.00', after: '95.00' }]
+ * ```
+ */
+
+import type { ExpenseActor, ExpenseSplit, ExpenseVersion, MileageDetails, PerDiemDetails, StoredExpense } from '@/types'
+import { combinedPolicyValidation } from '@/utils/expenseSplits'
+import { formatPolicyFinding } from '@/utils/policyFindings'
+import { formatAmount } from '@/utils/currency'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VersionFieldChange {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+type VersionInput = Omit<ExpenseVersion, 'version' | 'submittedAt' | 'submittedBy'>
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DIFF_FIELDS: { field: string; label: string; read: (version: ExpenseVersion) => string }[] = [
+  { field: 'vendor', label: 'Vendor', read: v => v.form.vendor },
+  { field: 'date', label: 'Date', read: v => v.form.date },
+  { field: 'amount', label: 'Amount', read: v => formatAmount(v.form.amount, v.form.currency) },
+  { field: 'category', label: 'Category', read: v => v.form.category },
+  { field: 'splits', label: 'Splits', read: v => describeSplits(v.form.splits) },
+  { field: 'trip', label: 'Trip', read: v => describeTrip(v.form.mileage) },
+  { field: 'per_diem', label: 'Per diem', read: v => describePerDiem(v.form.perDiem) },
+  { field: 'description', label: 'Description', read: v => v.form.description },
+  { field: 'receipt', label: 'Receipt', read: v => v.receiptFileName || (v.receiptAssetIds.length > 0 ? 'Attached' : 'None') },
+  { field: 'rule_set', label: 'Policy rules', read: v => v.ruleEvaluation ? `Version ${v.ruleEvaluation.ruleSetVersion}` : 'None' },
+  { field: 'compliant', label: 'Compliant', read: v => combinedPolicyValidation(v).is_compliant ? 'Yes' : 'No' },
+  { field: 'approval_required', label: 'Approval required', read: v => combinedPolicyValidation(v).approval_required ? 'Yes' : 'No' },
+  { field: 'violations', label: 'Violations', read: v => combinedPolicyValidation(v).violations.map(formatPolicyFinding).join('; ') || 'None' },
+  { field: 'warnings', label: 'Warnings', read: v => combinedPolicyValidation(v).warnings.map(formatPolicyFinding).join('; ') || 'None' },
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeTrip(mileage?: MileageDetails): string {
+  if (!mileage) return 'None'
+  return `${mileage.origin} → ${mileage.destination}, ${mileage.distance} ${mileage.unit} by ${mileage.vehicleType} at ${mileage.rate ?? '?'}/${mileage.unit}`
+}
+
+function describePerDiem(perDiem?: PerDiemDetails): string {
+  if (!perDiem) return 'None'
+  const meals = perDiem.days
+    .filter(day => day.providedMeals.length > 0)
+    .map(day => `${day.date}: ${day.providedMeals.join(', ')}`)
+  return `${perDiem.destination}, ${perDiem.startDate} to ${perDiem.endDate} at ${perDiem.dailyRate ?? '?'}/day`
+    + (meals.length ? `; meals provided ${meals.join('; ')}` : '')
+}
+
+function describeSplits(splits: ExpenseSplit[] = []): string {
+  return splits.map(split => `${split.category} ${split.amount} (${split.costCenter})`).join('; ') || 'None'
+}
+
+export function createExpenseVersion(
+  input: VersionInput,
+  version: number,
+  actor: ExpenseActor,
+  submittedAt: string = new Date().toISOString()
+): ExpenseVersion {
+  return {
+    version,
+    form: input.form,
+    receiptAssetIds: input.receiptAssetIds,
+    receiptFileName: input.receiptFileName,
+    result: input.result,
+    splitValidations: input.splitValidations,
+    conversion: input.conversion,
+    payloadVersion: input.payloadVersion,
+    ruleEvaluation: input.ruleEvaluation,
+    submittedAt,
+    submittedBy: actor,
+  }
+}
+
+/**
+ * Version 1 for expenses stored before versioning existed
+ */
+export function initialVersionFromExpense(expense: StoredExpense): ExpenseVersion {
+  const submitted = expense.history?.find(transition => transition.to === 'Submitted')
+  return createExpenseVersion(
+    { ...expense, result: expense.result },
+    1,
+    submitted?.actor ?? { id: 'unknown', name: 'Unknown' },
+    submitted?.at ?? expense.createdAt
+  )
+}
+
+/**
+ * Fields that differ between two versions
+ */
+export function diffExpenseVersions(before: ExpenseVersion, after: ExpenseVersion): VersionFieldChange[] {
+  return DIFF_FIELDS
+    .map(({ field, label, read }) => ({ field, label, before: read(before), after: read(after) }))
+    .filter(change => change.before !== change.after)
+}
@@ -18,12 +18,10 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { LYZR_AGENT_BASE_URL, lyzrHeaders } from '@/utils/lyzrConfig'
 
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
-// API Key from environment variable
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+// Lyzr Agent API endpoint (direct, or through the server proxy)
+const LYZR_API_URL = `${LYZR_AGENT_BASE_URL}/inference/chat`
 
 export interface UploadedAsset {
   success: boolean
@@ -157,10 +155,9 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
   try {
     const response = await fetch(LYZR_API_URL, {
       method: 'POST',
-      headers: {
+      headers: lyzrHeaders({
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+      }, user_id),
       body: JSON.stringify({
         message,
         agent_id,
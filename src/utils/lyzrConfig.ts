@@ -0,0 +1,76 @@
+/**
+ * Lyzr API Configuration
+ *
+ * Single place that decides how the browser reaches the Lyzr APIs.
+ *
+ * - Direct (default): requests go to Lyzr with `VITE_LYZR_API_KEY` as `x-api-key`.
+ * - Proxy (`VITE_USE_LYZR_PROXY=true`): requests go to the local server
+ *   (`npm run server`), which adds `LYZR_API_KEY` on the server side. The key
+ *   never ships to the browser.
+ */
+
+import { getCurrentUser } from '@/utils/currentUser'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const USE_LYZR_PROXY = import.meta.env.VITE_USE_LYZR_PROXY === 'true'
+
+const LYZR_API_KEY = USE_LYZR_PROXY ? '' : (import.meta.env.VITE_LYZR_API_KEY || '')
+
+/** Base URL of the Lyzr agent API (chat inference, asset uploads) */
+export const LYZR_AGENT_BASE_URL = USE_LYZR_PROXY
+  ? '/api/lyzr/agent'
+  : 'https://agent-prod.studio.lyzr.ai/v3'
+
+/** Base URL of the Lyzr RAG API (knowledge base documents) */
+export const LYZR_RAG_BASE_URL = USE_LYZR_PROXY
+  ? '/api/lyzr/rag'
+  : 'https://rag-prod.studio.lyzr.ai/v3'
+
+const CLIENT_ID_STORAGE_KEY = 'expenseflow:lyzr-client-id'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether requests can be authenticated, either by the proxy or by a browser key
+ */
+export function isLyzrConfigured(): boolean {
+  return USE_LYZR_PROXY || LYZR_API_KEY.length > 0
+}
+
+/**
+ * Error message to show when neither the proxy nor a browser key is configured
+ */
+export const LYZR_NOT_CONFIGURED_ERROR = 'VITE_LYZR_API_KEY not configured'
+
+/**
+ * Stable per-browser id; with the signed-in demo user it forms the id the
+ * proxy rate-limits and logs by
+ */
+function getClientId(): string {
+  try {
+    let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY)
+    if (!clientId) {
+      clientId = `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+      localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId)
+    }
+    return clientId
+  } catch {
+    return 'anonymous'
+  }
+}
+
+/**
+ * Build request headers for a Lyzr call.
+ * Adds `x-api-key` in direct mode and `x-user-id` in proxy mode.
+ */
+export function lyzrHeaders(headers: Record<string, string> = {}, userId?: string): Record<string, string> {
+  if (USE_LYZR_PROXY) {
+    return { ...headers, 'x-user-id': userId || `${getClientId()}:${getCurrentUser().id}` }
+  }
+  return { ...headers, 'x-api-key': LYZR_API_KEY }
+}
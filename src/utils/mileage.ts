@@ -0,0 +1,214 @@
+/**
+ * Mileage
+ *
+ * Mileage expenses have no receipt: the amount is the trip distance times
+ * the reimbursement rate for the vehicle type. Finance keeps an
+ * effective-dated rate table, so a trip is always paid at the rate in force
+ * on its date, even when it's filed after a mid-year rate change.
+ *
+ * @example
+ * ```tsx
+ * const form = withMileageAmount({ ...formData, mileage: { ...details, distance: '120' } })
+ * // form.amount → '84.00', form.mileage.rate → 0.70
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type { DistanceUnit, ExpenseFormData, MileageDetails, MileageRate } from '@/types'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const RATES_STORAGE_KEY = 'expenseflow:mileage-rates'
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** Category mileage expenses are filed under */
+export const MILEAGE_CATEGORY = 'Travel'
+
+export const VEHICLE_TYPES = ['Car', 'Motorcycle', 'Bicycle']
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  km: 'Kilometers',
+  mi: 'Miles',
+}
+
+export const DEFAULT_MILEAGE_RATES: MileageRate[] = [
+  { id: 'car-mi-2024', vehicleType: 'Car', unit: 'mi', rate: 0.67, effectiveFrom: '2024-01-01' },
+  { id: 'car-mi-2025', vehicleType: 'Car', unit: 'mi', rate: 0.70, effectiveFrom: '2025-01-01' },
+  { id: 'car-km-2024', vehicleType: 'Car', unit: 'km', rate: 0.42, effectiveFrom: '2024-01-01' },
+  { id: 'car-km-2025', vehicleType: 'Car', unit: 'km', rate: 0.44, effectiveFrom: '2025-01-01' },
+  { id: 'motorcycle-mi-2024', vehicleType: 'Motorcycle', unit: 'mi', rate: 0.50, effectiveFrom: '2024-01-01' },
+  { id: 'motorcycle-km-2024', vehicleType: 'Motorcycle', unit: 'km', rate: 0.31, effectiveFrom: '2024-01-01' },
+  { id: 'bicycle-mi-2024', vehicleType: 'Bicycle', unit: 'mi', rate: 0.20, effectiveFrom: '2024-01-01' },
+  { id: 'bicycle-km-2024', vehicleType: 'Bicycle', unit: 'km', rate: 0.12, effectiveFrom: '2024-01-01' },
+]
+
+// =============================================================================
+// Rate Storage
+// =============================================================================
+
+const listeners = new Set<(rates: MileageRate[]) => void>()
+
+export function getMileageRates(): MileageRate[] {
+  try {
+    const raw = localStorage.getItem(RATES_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_MILEAGE_RATES
+}
+
+/**
+ * Validate rates before saving. Returns a list of problems (empty when valid).
+ */
+export function validateMileageRates(rates: MileageRate[]): string[] {
+  const problems: string[] = []
+
+  if (rates.length === 0) {
+    problems.push('At least one rate is required')
+  }
+
+  const seen = new Set<string>()
+  rates.forEach((rate, index) => {
+    const label = `Rate ${index + 1} (${rate.vehicleType || 'no vehicle'}, ${rate.unit})`
+    if (!rate.vehicleType.trim()) {
+      problems.push(`${label}: vehicle type is required`)
+    }
+    if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+      problems.push(`${label}: rate must be a positive number`)
+    }
+    if (!ISO_DATE_PATTERN.test(rate.effectiveFrom) || Number.isNaN(Date.parse(rate.effectiveFrom))) {
+      problems.push(`${label}: effective date is required`)
+    }
+
+    const key = `${rate.vehicleType}|${rate.unit}|${rate.effectiveFrom}`
+    if (seen.has(key)) {
+      problems.push(`${label}: another rate for this vehicle and unit starts on ${rate.effectiveFrom}`)
+    }
+    seen.add(key)
+  })
+
+  return problems
+}
+
+export function saveMileageRates(rates: MileageRate[]): { success: boolean; error?: string } {
+  const problems = validateMileageRates(rates)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  try {
+    localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates))
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save rates' }
+  }
+
+  listeners.forEach(listener => listener(rates))
+  return { success: true }
+}
+
+export function resetMileageRates(): void {
+  try {
+    localStorage.removeItem(RATES_STORAGE_KEY)
+  } catch {
+    // Nothing stored
+  }
+  listeners.forEach(listener => listener(DEFAULT_MILEAGE_RATES))
+}
+
+// =============================================================================
+// Calculation
+// =============================================================================
+
+/**
+ * Rate in effect for a vehicle and unit on a trip date: the one with the
+ * latest effective date on or before it
+ */
+export function findMileageRate(
+  vehicleType: string,
+  unit: DistanceUnit,
+  date: string,
+  rates: MileageRate[] = getMileageRates()
+): MileageRate | null {
+  if (!date) return null
+  return rates
+    .filter(rate => rate.vehicleType === vehicleType && rate.unit === unit && rate.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0] ?? null
+}
+
+export function createMileageDetails(): MileageDetails {
+  return {
+    origin: '',
+    destination: '',
+    distance: '',
+    unit: 'km',
+    vehicleType: VEHICLE_TYPES[0],
+    purpose: '',
+  }
+}
+
+/**
+ * Fill the fields a Mileage expense derives from its trip: vendor (the
+ * route), category, currency and amount at the rate in effect on the date
+ */
+export function withMileageAmount(form: ExpenseFormData, rates: MileageRate[] = getMileageRates()): ExpenseFormData {
+  const mileage = form.mileage ?? createMileageDetails()
+  const rate = findMileageRate(mileage.vehicleType, mileage.unit, form.date, rates)
+  const distance = parseFloat(mileage.distance)
+  const route = [mileage.origin.trim(), mileage.destination.trim()].filter(Boolean).join(' → ')
+
+  return {
+    ...form,
+    vendor: route,
+    category: MILEAGE_CATEGORY,
+    currency: REPORTING_CURRENCY,
+    amount: rate && Number.isFinite(distance) && distance > 0 ? (distance * rate.rate).toFixed(2) : '',
+    mileage: { ...mileage, rate: rate?.rate, rateEffectiveFrom: rate?.effectiveFrom },
+  }
+}
+
+/**
+ * Problems that block submitting a Mileage expense; empty when valid
+ */
+export function validateMileage(form: ExpenseFormData): string[] {
+  const mileage = form.mileage
+  if (!mileage) return ['Enter the trip details']
+
+  const problems: string[] = []
+  if (!mileage.origin.trim()) problems.push('Enter where the trip started')
+  if (!mileage.destination.trim()) problems.push('Enter the destination')
+  if (!(parseFloat(mileage.distance) > 0)) problems.push('Enter a distance above zero')
+  if (!mileage.purpose.trim()) problems.push('Enter the purpose of the trip')
+  if (form.date && !mileage.rate) {
+    problems.push(`No ${mileage.vehicleType} rate per ${mileage.unit} is in effect on ${form.date}`)
+  }
+  return problems
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function useMileageRates() {
+  const [rates, setRates] = useState<MileageRate[]>(getMileageRates)
+
+  useEffect(() => {
+    listeners.add(setRates)
+    return () => {
+      listeners.delete(setRates)
+    }
+  }, [])
+
+  return {
+    rates,
+    saveRates: saveMileageRates,
+    resetRates: resetMileageRates,
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Per Diem
+ *
+ * Per diem expenses pay a fixed daily allowance for meals and incidentals
+ * instead of receipts. The allowance comes from a locally stored rate table
+ * by destination:
+ *
+ * - First and last day of the trip: 75% of the daily rate
+ * - Every day: minus a fixed deduction for each meal that was provided
+ * - A day never goes below zero
+ *
+ * The trip becomes a single expense; its day-by-day breakdown is stored on
+ * the form so approvers see how the amount was reached.
+ *
+ * @example
+ * ```tsx
+ * const form = withPerDiemAllowance({ ...formData, perDiem: { ...details, endDate: '2024-06-05' } })
+ * // New York City, 3 days: form.amount → '197.50', form.perDiem.days → [{ date: '2024-06-03', proration: 0.75, ... }, ...]
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type { ExpenseFormData, Meal, PerDiemDay, PerDiemDetails, PerDiemRate } from '@/types'
+import { REPORTING_CURRENCY } from '@/utils/currency'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const RATES_STORAGE_KEY = 'expenseflow:per-diem-rates'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Share of the daily rate paid on travel days */
+export const FIRST_LAST_DAY_RATIO = 0.75
+
+/** Longest trip a single per diem expense may cover */
+export const MAX_TRIP_DAYS = 90
+
+/** Category per diem expenses are filed under */
+export const PER_DIEM_CATEGORY = 'Travel'
+
+export const MEALS: Meal[] = ['breakfast', 'lunch', 'dinner']
+
+export const MEAL_LABELS: Record<Meal, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+}
+
+export const DEFAULT_PER_DIEM_RATES: PerDiemRate[] = [
+  { id: 'standard', location: 'Standard rate', dailyRate: 59, mealDeductions: { breakfast: 13, lunch: 15, dinner: 26 } },
+  { id: 'new-york', location: 'New York City', dailyRate: 79, mealDeductions: { breakfast: 20, lunch: 22, dinner: 32 } },
+  { id: 'san-francisco', location: 'San Francisco', dailyRate: 79, mealDeductions: { breakfast: 20, lunch: 22, dinner: 32 } },
+  { id: 'chicago', location: 'Chicago', dailyRate: 74, mealDeductions: { breakfast: 18, lunch: 20, dinner: 31 } },
+  { id: 'london', location: 'London', dailyRate: 130, mealDeductions: { breakfast: 25, lunch: 35, dinner: 55 } },
+]
+
+// =============================================================================
+// Rate Storage
+// =============================================================================
+
+const listeners = new Set<(rates: PerDiemRate[]) => void>()
+
+export function getPerDiemRates(): PerDiemRate[] {
+  try {
+    const raw = localStorage.getItem(RATES_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_PER_DIEM_RATES
+}
+
+/**
+ * Validate rates before saving. Returns a list of problems (empty when valid).
+ */
+export function validatePerDiemRates(rates: PerDiemRate[]): string[] {
+  const problems: string[] = []
+
+  if (rates.length === 0) {
+    problems.push('At least one location is required')
+  }
+
+  const seen = new Set<string>()
+  rates.forEach((rate, index) => {
+    const label = rate.location.trim() || `Location ${index + 1}`
+    if (!rate.location.trim()) {
+      problems.push(`${label}: name is required`)
+    }
+    if (seen.has(rate.location.trim().toLowerCase())) {
+      problems.push(`${label}: listed more than once`)
+    }
+    seen.add(rate.location.trim().toLowerCase())
+
+    if (!Number.isFinite(rate.dailyRate) || rate.dailyRate <= 0) {
+      problems.push(`${label}: daily rate must be a positive number`)
+    }
+    const deductions = MEALS.map(meal => rate.mealDeductions[meal])
+    if (deductions.some(amount => !Number.isFinite(amount) || amount < 0)) {
+      problems.push(`${label}: meal deductions must be zero or more`)
+    } else if (deductions.reduce((sum, amount) => sum + amount, 0) > rate.dailyRate) {
+      problems.push(`${label}: meal deductions add up to more than the daily rate`)
+    }
+  })
+
+  return problems
+}
+
+export function savePerDiemRates(rates: PerDiemRate[]): { success: boolean; error?: string } {
+  const problems = validatePerDiemRates(rates)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  try {
+    localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates))
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save rates' }
+  }
+
+  listeners.forEach(listener => listener(rates))
+  return { success: true }
+}
+
+export function resetPerDiemRates(): void {
+  try {
+    localStorage.removeItem(RATES_STORAGE_KEY)
+  } catch {
+    // Nothing stored
+  }
+  listeners.forEach(listener => listener(DEFAULT_PER_DIEM_RATES))
+}
+
+// =============================================================================
+// Calculation
+// =============================================================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Every date from start to end inclusive, or [] when the range is invalid
+ * or longer than MAX_TRIP_DAYS
+ */
+export function tripDates(startDate: string, endDate: string): string[] {
+  const start = Date.parse(`${startDate}T00:00:00Z`)
+  const end = Date.parse(`${endDate}T00:00:00Z`)
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return []
+
+  const count = Math.round((end - start) / DAY_MS) + 1
+  if (count > MAX_TRIP_DAYS) return []
+  return Array.from({ length: count }, (_, i) => new Date(start + i * DAY_MS).toISOString().slice(0, 10))
+}
+
+export function findPerDiemRate(destination: string, rates: PerDiemRate[] = getPerDiemRates()): PerDiemRate | null {
+  return rates.find(rate => rate.location === destination) ?? null
+}
+
+/**
+ * Day-by-day allowance for a trip at a location's rate
+ */
+export function calculatePerDiemDays(details: PerDiemDetails, rate: PerDiemRate): PerDiemDay[] {
+  const dates = tripDates(details.startDate, details.endDate)
+
+  return dates.map((date, index) => {
+    const isTravelDay = index === 0 || index === dates.length - 1
+    const proration = isTravelDay ? FIRST_LAST_DAY_RATIO : 1
+    const providedMeals = MEALS.filter(meal => details.providedMeals[date]?.includes(meal))
+    const deduction = roundCents(providedMeals.reduce((sum, meal) => sum + rate.mealDeductions[meal], 0))
+    const allowance = Math.max(0, roundCents(rate.dailyRate * proration - deduction))
+    return { date, proration, providedMeals, deduction, allowance }
+  })
+}
+
+export function createPerDiemDetails(): PerDiemDetails {
+  return {
+    destination: '',
+    startDate: '',
+    endDate: '',
+    purpose: '',
+    providedMeals: {},
+    days: [],
+  }
+}
+
+/**
+ * Fill the fields a Per Diem expense derives from its trip: vendor, date
+ * (the first day), category, currency, the day breakdown and its total
+ */
+export function withPerDiemAllowance(form: ExpenseFormData, rates: PerDiemRate[] = getPerDiemRates()): ExpenseFormData {
+  const perDiem = form.perDiem ?? createPerDiemDetails()
+  const rate = findPerDiemRate(perDiem.destination, rates)
+  const days = rate ? calculatePerDiemDays(perDiem, rate) : []
+  const total = roundCents(days.reduce((sum, day) => sum + day.allowance, 0))
+
+  return {
+    ...form,
+    vendor: perDiem.destination ? `Per diem: ${perDiem.destination}` : '',
+    date: perDiem.startDate,
+    category: PER_DIEM_CATEGORY,
+    currency: REPORTING_CURRENCY,
+    amount: days.length > 0 ? total.toFixed(2) : '',
+    perDiem: { ...perDiem, dailyRate: rate?.dailyRate, days },
+  }
+}
+
+/**
+ * Problems that block submitting a Per Diem expense; empty when valid
+ */
+export function validatePerDiem(form: ExpenseFormData): string[] {
+  const perDiem = form.perDiem
+  if (!perDiem) return ['Enter the trip details']
+
+  const problems: string[] = []
+  if (!perDiem.destination) problems.push('Choose a destination')
+  if (!perDiem.startDate || !perDiem.endDate) {
+    problems.push('Enter the first and last day of the trip')
+  } else if (perDiem.endDate < perDiem.startDate) {
+    problems.push('The trip ends before it starts')
+  } else if (tripDates(perDiem.startDate, perDiem.endDate).length === 0) {
+    problems.push(`A per diem claim can cover at most ${MAX_TRIP_DAYS} days`)
+  }
+  if (!perDiem.purpose.trim()) problems.push('Enter the purpose of the trip')
+  if (perDiem.destination && !perDiem.dailyRate) {
+    problems.push(`No per diem rate is set for ${perDiem.destination}`)
+  }
+  return problems
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function usePerDiemRates() {
+  const [rates, setRates] = useState<PerDiemRate[]>(getPerDiemRates)
+
+  useEffect(() => {
+    listeners.add(setRates)
+    return () => {
+      listeners.delete(setRates)
+    }
+  }, [])
+
+  return {
+    rates,
+    saveRates: savePerDiemRates,
+    resetRates: resetPerDiemRates,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Policy Findings
+ *
+ * Normalizes the agent's violations and warnings into PolicyFinding. The
+ * response schema leaves them untyped, and the agent returns plain strings
+ * or objects with keys of its own choosing (`message`, `description`,
+ * `policy_reference`, ...). Every known spelling is mapped onto the typed
+ * finding so views never fall back to printing "[object Object]". Policy
+ * rule findings are converted the same way, so agent and rule findings
+ * render alike. A policy document the agent cites, under a document key or
+ * in a nested `source` object, is kept as the finding's source (see
+ * utils/policySources). Generic keys like `file` or a plain `source` string
+ * often name the receipt instead, so they are not read as citations.
+ *
+ * A finding's severity comes from the list it was in, not from the object.
+ *
+ * @example
+ * ```tsx
+ * normalizePolicyFinding({ code: 'MEAL_LIMIT', description: 'Over the meal limit', policy_section: '4.2' }, 'violation')
+ * // { code: 'meal_limit', severity: 'violation', message: 'Over the meal limit', citation: '4.2' }
+ * normalizePolicyFinding('Receipt is missing', 'warning')
+ * // { code: 'unclassified', severity: 'warning', message: 'Receipt is missing' }
+ * ```
+ */
+
+import type {
+  NormalizedPolicyValidation,
+  PolicyFinding,
+  PolicySeverity,
+  PolicyValidation,
+  RuleFinding,
+} from '@/types'
+import { normalizePolicySource } from '@/utils/policySources'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Code of findings the agent gave no code for */
+export const UNCLASSIFIED_FINDING_CODE = 'unclassified'
+
+/** Keys the agent has been seen to use for each finding property, in order of preference */
+const FINDING_KEYS: Record<'message' | 'code' | 'ruleId' | 'field' | 'citation' | 'document' | 'section', string[]> = {
+  message: ['message', 'description', 'detail', 'details', 'text', 'reason', 'issue', 'violation', 'warning', 'summary'],
+  code: ['code', 'type', 'kind', 'id'],
+  ruleId: ['rule_id', 'ruleId', 'rule'],
+  field: ['field', 'affected_field', 'affectedField', 'path'],
+  citation: ['citation', 'policy_citation', 'policy_reference', 'policy_section', 'policy', 'reference', 'section'],
+  document: ['document', 'document_name', 'source_document'],
+  section: ['policy_section', 'section'],
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter(Boolean)
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+  return undefined
+}
+
+function pick(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const text = toText(record[key])
+    if (text) return text
+  }
+  return undefined
+}
+
+function toCode(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || UNCLASSIFIED_FINDING_CODE
+}
+
+/**
+ * Turn one agent violation or warning into a finding; null when it carries
+ * no text at all
+ */
+export function normalizePolicyFinding(value: unknown, severity: PolicySeverity): PolicyFinding | null {
+  const text = toText(value)
+  if (text) {
+    return { code: UNCLASSIFIED_FINDING_CODE, severity, message: text }
+  }
+  if (!value || typeof value !== 'object') return null
+
+  const record = value as Record<string, unknown>
+  const known = Object.values(FINDING_KEYS).flat()
+  const message = pick(record, FINDING_KEYS.message)
+    ?? Object.entries(record)
+      .filter(([key, entry]) => !known.includes(key) && toText(entry))
+      .map(([key, entry]) => `${key}: ${toText(entry)}`)
+      .join('; ')
+  if (!message) return null
+
+  const code = pick(record, FINDING_KEYS.code)
+  const ruleId = pick(record, FINDING_KEYS.ruleId)
+  const field = pick(record, FINDING_KEYS.field)
+  const citation = pick(record, FINDING_KEYS.citation)
+  const document = pick(record, FINDING_KEYS.document)
+  const section = pick(record, FINDING_KEYS.section)
+  const source = (record.source && typeof record.source === 'object' ? normalizePolicySource(record.source) : null)
+    ?? (document ? normalizePolicySource({ document, section }) : null)
+
+  return {
+    code: code ? toCode(code) : UNCLASSIFIED_FINDING_CODE,
+    severity,
+    message,
+    ...(ruleId ? { ruleId } : {}),
+    ...(field ? { field } : {}),
+    ...(citation ? { citation } : {}),
+    ...(source ? { source } : {}),
+  }
+}
+
+/**
+ * The agent's verdict with every violation and warning normalized
+ */
+export function normalizePolicyValidation(validation: PolicyValidation): NormalizedPolicyValidation {
+  const normalize = (values: unknown[] | undefined, severity: PolicySeverity) => (Array.isArray(values) ? values : [])
+    .map(value => normalizePolicyFinding(value, severity))
+    .filter((finding): finding is PolicyFinding => finding !== null)
+
+  return {
+    is_compliant: validation.is_compliant,
+    violations: normalize(validation.violations, 'violation'),
+    warnings: normalize(validation.warnings, 'warning'),
+    approval_required: validation.approval_required,
+  }
+}
+
+/**
+ * A policy rule finding as a PolicyFinding citing the rule set version
+ */
+export function ruleFindingToPolicyFinding(finding: RuleFinding, ruleSetVersion: number): PolicyFinding {
+  return {
+    code: finding.ruleId,
+    severity: finding.severity,
+    ruleId: finding.ruleId,
+    message: finding.message,
+    ...(finding.field ? { field: finding.field } : {}),
+    citation: `Policy rule set version ${ruleSetVersion}`,
+  }
+}
+
+/**
+ * One-line text of a finding, for history diffs and exports
+ */
+export function formatPolicyFinding(finding: PolicyFinding): string {
+  return finding.ruleId ? `${finding.message} (rule ${finding.ruleId})` : finding.message
+}
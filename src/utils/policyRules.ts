@@ -0,0 +1,465 @@
+/**
+ * Policy Rules
+ *
+ * Deterministic policy checks run on every submission next to the agent.
+ * The same submission always gets the same findings, and each finding names
+ * the rule that produced it, so a verdict can be audited. Rule kinds:
+ *
+ * - category_cap: amount per category above `amount`
+ * - receipt_required: no receipt above `amount`
+ * - weekend_spend: dated on a Saturday or Sunday
+ * - keyword: any of `keywords` in the receipt items or description
+ * - submission_age: submitted more than `days` after the expense date
+ *
+ * Finance maintains the rules in versioned rule sets. Published versions
+ * are never changed: each is effective from a date, an expense is checked
+ * against the version in effect on its date, and every evaluation records
+ * that version. Rule sets import and export as JSON.
+ *
+ * Rule findings are merged into the agent's verdict (see
+ * combinedPolicyValidation in utils/expenseSplits). When the two disagree on
+ * compliance, the expense is flagged for review instead of bulk approval.
+ *
+ * @example
+ * ```tsx
+ * const evaluation = evaluatePolicyRules({ form, hasReceipt: true, items, reportingAmount: 120, submittedAt })
+ * // evaluation.findings → [{ ruleId: 'meals-cap', severity: 'violation', message: 'Meals spend of $120.00 exceeds the $75.00 cap' }]
+ * policyDisagreements(expense)
+ * // ['Policy rules found violations the agent did not: Meals spend of $120.00 exceeds the $75.00 cap']
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import { z } from 'zod'
+import type {
+  ExpenseActor,
+  ExpenseFormData,
+  ExpenseResult,
+  PolicyRule,
+  PolicyRuleKind,
+  PolicyRuleSet,
+  RuleEvaluation,
+  RuleFinding,
+  SplitValidations,
+  StoredExpense,
+} from '@/types'
+import { REPORTING_CURRENCY, formatMoney } from '@/utils/currency'
+import { getReportingAmount } from '@/utils/exchangeRates'
+import { agentPolicyValidation, getExpenseCategories, isSplit } from '@/utils/expenseSplits'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const RULE_SETS_STORAGE_KEY = 'expenseflow:policy-rule-sets'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+const RULE_KINDS = ['category_cap', 'receipt_required', 'weekend_spend', 'keyword', 'submission_age'] as const
+
+export const RULE_KIND_LABELS: Record<PolicyRuleKind, string> = {
+  category_cap: 'Category cap',
+  receipt_required: 'Receipt required',
+  weekend_spend: 'Weekend spend',
+  keyword: 'Keyword',
+  submission_age: 'Submission age',
+}
+
+/** The setting each rule kind is configured with, if any */
+export const RULE_KIND_PARAMETER: Record<PolicyRuleKind, 'amount' | 'keywords' | 'days' | null> = {
+  category_cap: 'amount',
+  receipt_required: 'amount',
+  weekend_spend: null,
+  keyword: 'keywords',
+  submission_age: 'days',
+}
+
+/** Form field each rule kind checks, reported with its findings */
+const RULE_KIND_FIELD: Record<PolicyRuleKind, string> = {
+  category_cap: 'amount',
+  receipt_required: 'receipt',
+  weekend_spend: 'date',
+  keyword: 'description',
+  submission_age: 'date',
+}
+
+export const DEFAULT_POLICY_RULE_SET: PolicyRuleSet = {
+  version: 1,
+  effectiveFrom: '2024-01-01',
+  note: 'Built-in rules',
+  rules: [
+    { id: 'meals-cap', name: 'Meals cap', kind: 'category_cap', severity: 'violation', enabled: true, categories: ['Meals'], amount: 75 },
+    { id: 'office-supplies-cap', name: 'Office supplies cap', kind: 'category_cap', severity: 'violation', enabled: true, categories: ['Office Supplies'], amount: 250 },
+    { id: 'software-cap', name: 'Software cap', kind: 'category_cap', severity: 'violation', enabled: true, categories: ['Software'], amount: 500 },
+    { id: 'hardware-cap', name: 'Hardware cap', kind: 'category_cap', severity: 'violation', enabled: true, categories: ['Hardware'], amount: 2000 },
+    { id: 'receipt-over-25', name: 'Receipt over $25', kind: 'receipt_required', severity: 'violation', enabled: true, categories: [], amount: 25 },
+    { id: 'weekend-meals', name: 'Weekend meals', kind: 'weekend_spend', severity: 'warning', enabled: true, categories: ['Meals', 'Other'] },
+    {
+      id: 'alcohol',
+      name: 'Alcohol',
+      kind: 'keyword',
+      severity: 'violation',
+      enabled: true,
+      categories: [],
+      keywords: ['alcohol', 'beer', 'wine', 'liquor', 'spirits', 'cocktail', 'champagne', 'whisky', 'vodka'],
+    },
+    { id: 'late-submission', name: 'Late submission', kind: 'submission_age', severity: 'warning', enabled: true, categories: [], days: 60 },
+  ],
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RuleInput {
+  form: ExpenseFormData
+  hasReceipt: boolean
+  /** Line items the agent read from the receipt */
+  items: string[]
+  /** Expense total in the reporting currency */
+  reportingAmount: number
+  /** ISO timestamp of the submission */
+  submittedAt: string
+}
+
+/** Rules and settings of a rule set before it is published as a version */
+export type RuleSetDraft = Pick<PolicyRuleSet, 'effectiveFrom' | 'rules' | 'note'>
+
+export interface RuleSetImportResult {
+  success: boolean
+  data?: RuleSetDraft
+  error?: string
+}
+
+interface EvaluatedSubmission {
+  form: ExpenseFormData
+  result?: ExpenseResult
+  splitValidations?: SplitValidations
+  ruleEvaluation?: RuleEvaluation
+}
+
+// =============================================================================
+// Rule Set Storage
+// =============================================================================
+
+const listeners = new Set<(ruleSets: PolicyRuleSet[]) => void>()
+
+/**
+ * Every published version, oldest first
+ */
+export function getPolicyRuleSets(): PolicyRuleSet[] {
+  try {
+    const raw = localStorage.getItem(RULE_SETS_STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return [DEFAULT_POLICY_RULE_SET]
+}
+
+/**
+ * Version in effect on a date: the latest effective on or before it, or the
+ * first version for dates before any took effect
+ */
+export function findPolicyRuleSet(date: string, ruleSets: PolicyRuleSet[] = getPolicyRuleSets()): PolicyRuleSet {
+  const inEffect = ruleSets
+    .filter(ruleSet => ruleSet.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version)
+  return inEffect[0] ?? ruleSets[0]
+}
+
+/**
+ * Validate a rule set before publishing. Returns a list of problems (empty when valid).
+ */
+export function validatePolicyRuleSet(draft: RuleSetDraft, ruleSets: PolicyRuleSet[] = getPolicyRuleSets()): string[] {
+  const problems: string[] = []
+
+  if (!ISO_DATE_PATTERN.test(draft.effectiveFrom) || Number.isNaN(Date.parse(draft.effectiveFrom))) {
+    problems.push('Effective date is required')
+  }
+  const latest = ruleSets[ruleSets.length - 1]
+  if (latest && draft.effectiveFrom < latest.effectiveFrom) {
+    problems.push(`Effective date cannot be before version ${latest.version} (${latest.effectiveFrom})`)
+  }
+
+  const seen = new Set<string>()
+  draft.rules.forEach((rule, index) => {
+    const label = rule.name.trim() || rule.id || `Rule ${index + 1}`
+    if (!RULE_ID_PATTERN.test(rule.id)) {
+      problems.push(`${label}: id must be lowercase letters, digits and dashes`)
+    }
+    if (seen.has(rule.id)) {
+      problems.push(`${label}: id ${rule.id} is used more than once`)
+    }
+    seen.add(rule.id)
+
+    if (!rule.name.trim()) {
+      problems.push(`${label}: name is required`)
+    }
+    const unknown = rule.categories.filter(category => !EXPENSE_CATEGORIES.includes(category))
+    if (unknown.length > 0) {
+      problems.push(`${label}: unknown categor${unknown.length === 1 ? 'y' : 'ies'} ${unknown.join(', ')}`)
+    }
+
+    const parameter = RULE_KIND_PARAMETER[rule.kind]
+    if (parameter === 'amount' && !(Number.isFinite(rule.amount) && rule.amount > 0)) {
+      problems.push(`${label}: amount must be a positive number`)
+    }
+    if (parameter === 'keywords' && !(rule.keywords ?? []).some(keyword => keyword.trim())) {
+      problems.push(`${label}: at least one keyword is required`)
+    }
+    if (parameter === 'days' && !(Number.isInteger(rule.days) && rule.days > 0)) {
+      problems.push(`${label}: days must be a whole number above zero`)
+    }
+  })
+
+  return problems
+}
+
+/**
+ * Publish a rule set as the next version. Earlier versions are kept so
+ * stored evaluations can always be traced to the rules that produced them.
+ */
+export function publishPolicyRuleSet(
+  draft: RuleSetDraft,
+  actor: ExpenseActor
+): { success: boolean; data?: PolicyRuleSet; error?: string } {
+  const ruleSets = getPolicyRuleSets()
+  const problems = validatePolicyRuleSet(draft, ruleSets)
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  const ruleSet: PolicyRuleSet = {
+    version: Math.max(...ruleSets.map(existing => existing.version)) + 1,
+    effectiveFrom: draft.effectiveFrom,
+    note: draft.note?.trim() || undefined,
+    rules: draft.rules.map(rule => ({
+      ...rule,
+      name: rule.name.trim(),
+      keywords: rule.keywords?.map(keyword => keyword.trim()).filter(Boolean),
+    })),
+    publishedAt: new Date().toISOString(),
+    publishedBy: actor,
+  }
+  const next = [...ruleSets, ruleSet]
+
+  try {
+    localStorage.setItem(RULE_SETS_STORAGE_KEY, JSON.stringify(next))
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save rules' }
+  }
+
+  listeners.forEach(listener => listener(next))
+  return { success: true, data: ruleSet }
+}
+
+// =============================================================================
+// Import / Export
+// =============================================================================
+
+const importedRuleSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  kind: z.enum(RULE_KINDS),
+  severity: z.enum(['violation', 'warning']),
+  enabled: z.boolean().default(true),
+  categories: z.array(z.string()).default([]),
+  amount: z.number().optional(),
+  keywords: z.array(z.string()).optional(),
+  days: z.number().optional(),
+})
+
+const importedRuleSetSchema = z.object({
+  effectiveFrom: z.string().optional(),
+  note: z.string().optional(),
+  rules: z.array(importedRuleSchema),
+})
+
+export function exportPolicyRuleSet(ruleSet: PolicyRuleSet): string {
+  return JSON.stringify(ruleSet, null, 2)
+}
+
+/**
+ * Parse an exported rule set. The version number and publisher in the file
+ * are ignored: importing always produces a draft for the next version, and
+ * the effective date defaults to today when the file has none.
+ */
+export function parsePolicyRuleSetImport(text: string): RuleSetImportResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { success: false, error: 'The file is not valid JSON' }
+  }
+
+  const parsed = importedRuleSetSchema.safeParse(json)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { success: false, error: `${issue.path.join('.') || 'File'}: ${issue.message}` }
+  }
+
+  return {
+    success: true,
+    data: {
+      effectiveFrom: parsed.data.effectiveFrom ?? new Date().toISOString().slice(0, 10),
+      note: parsed.data.note,
+      rules: parsed.data.rules.map(rule => ({ ...rule, name: rule.name ?? rule.id })),
+    },
+  }
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function appliesTo(rule: PolicyRule, category: string): boolean {
+  return rule.categories.length === 0 || rule.categories.includes(category)
+}
+
+/**
+ * Reporting-currency amount per category; split lines share the conversion
+ * rate of the whole expense
+ */
+export function categoryAmounts(input: RuleInput): Map<string, number> {
+  const totals = new Map<string, number>()
+  if (!isSplit(input.form)) {
+    totals.set(input.form.category, input.reportingAmount)
+    return totals
+  }
+
+  const formAmount = parseFloat(input.form.amount) || 0
+  const rate = formAmount > 0 ? input.reportingAmount / formAmount : 0
+  for (const split of input.form.splits!) {
+    const amount = (parseFloat(split.amount) || 0) * rate
+    totals.set(split.category, (totals.get(split.category) ?? 0) + amount)
+  }
+  return totals
+}
+
+function checkRule(rule: PolicyRule, input: RuleInput): string[] {
+  const categories = getExpenseCategories(input.form)
+  const applies = categories.some(category => appliesTo(rule, category))
+
+  switch (rule.kind) {
+    case 'category_cap': {
+      const messages: string[] = []
+      categoryAmounts(input).forEach((amount, category) => {
+        if (appliesTo(rule, category) && amount > rule.amount) {
+          messages.push(`${category} spend of ${formatMoney(amount, REPORTING_CURRENCY)} exceeds the ${formatMoney(rule.amount, REPORTING_CURRENCY)} cap`)
+        }
+      })
+      return messages
+    }
+    case 'receipt_required':
+      return applies && (input.form.type ?? 'receipt') === 'receipt' && !input.hasReceipt && input.reportingAmount > rule.amount
+        ? [`A receipt is required above ${formatMoney(rule.amount, REPORTING_CURRENCY)}`]
+        : []
+    case 'weekend_spend': {
+      const day = new Date(`${input.form.date}T00:00:00Z`).getUTCDay()
+      return applies && (day === 0 || day === 6)
+        ? [`${categories.filter(category => appliesTo(rule, category)).join(', ')} spend on a weekend (${input.form.date})`]
+        : []
+    }
+    case 'keyword': {
+      if (!applies) return []
+      const text = [...input.items, input.form.description].join(' ').toLowerCase()
+      const matched = (rule.keywords ?? []).filter(keyword => new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(text))
+      return matched.length > 0 ? [`Receipt or description mentions ${matched.join(', ')}`] : []
+    }
+    case 'submission_age': {
+      const age = Math.floor((Date.parse(input.submittedAt) - Date.parse(`${input.form.date}T00:00:00Z`)) / DAY_MS)
+      return applies && age > rule.days
+        ? [`Submitted ${age} days after the expense date (limit ${rule.days})`]
+        : []
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Run the enabled rules of a rule set; by default the version in effect on
+ * the expense date
+ */
+export function evaluatePolicyRules(
+  input: RuleInput,
+  ruleSet: PolicyRuleSet = findPolicyRuleSet(input.form.date)
+): RuleEvaluation {
+  const findings: RuleFinding[] = ruleSet.rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => checkRule(rule, input).map(message => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      message,
+      field: RULE_KIND_FIELD[rule.kind],
+    })))
+  return { ruleSetVersion: ruleSet.version, findings, evaluatedAt: input.submittedAt }
+}
+
+/**
+ * Rule input for a stored expense as of its latest submission
+ */
+export function storedRuleInput(expense: StoredExpense): RuleInput {
+  const latest = expense.versions[expense.versions.length - 1]
+  return {
+    form: expense.form,
+    hasReceipt: expense.receiptAssetIds.length > 0,
+    items: expense.result?.expense_details?.items ?? [],
+    reportingAmount: getReportingAmount(expense),
+    submittedAt: latest?.submittedAt ?? expense.updatedAt,
+  }
+}
+
+/**
+ * Where the agent's verdict and the rules disagree on compliance; empty
+ * when they agree or either is missing
+ */
+export function policyDisagreements(submission: EvaluatedSubmission): string[] {
+  const agent = agentPolicyValidation(submission)
+  if (!agent || !submission.ruleEvaluation) return []
+
+  const ruleViolations = submission.ruleEvaluation.findings
+    .filter(finding => finding.severity === 'violation')
+    .map(finding => finding.message)
+
+  if (agent.is_compliant && ruleViolations.length > 0) {
+    return [`Policy rules found violations the agent did not: ${ruleViolations.join('; ')}`]
+  }
+  if (!agent.is_compliant && ruleViolations.length === 0) {
+    return ['The agent found violations that no policy rule confirms']
+  }
+  return []
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function usePolicyRuleSets() {
+  const [ruleSets, setRuleSets] = useState<PolicyRuleSet[]>(getPolicyRuleSets)
+
+  useEffect(() => {
+    listeners.add(setRuleSets)
+    return () => {
+      listeners.delete(setRuleSets)
+    }
+  }, [])
+
+  return {
+    ruleSets,
+    publishRuleSet: publishPolicyRuleSet,
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Policy Sources
+ *
+ * Ties policy findings and Policy Q&A answers back to the documents of the
+ * "Expense Policies" knowledge base. References come from wherever the agent
+ * provides them: a `sources` list on the result, document keys on a finding
+ * object, or a document named in the answer text. Each reference is matched
+ * against the document list returned by getDocuments so it can open that
+ * document's entry; references to documents the knowledge base doesn't list
+ * are still shown, without a link.
+ *
+ * @example
+ * ```tsx
+ * const { documents } = usePolicyDocuments()
+ * const references = findPolicySources('See Travel_Policy.pdf, section 4.2', documents)
+ * // [{ document: 'Travel_Policy.pdf', section: '4.2' }]
+ * matchPolicyDocument(references[0], documents)?.fileName
+ * // 'Travel_Policy.pdf'
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import type { ExpenseResult, PolicySourceReference } from '@/types'
+import { getDocuments, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import { EXPENSE_POLICY_RAG_ID } from '@/utils/expenseAgent'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Keys the agent has been seen to use for a cited document, in order of preference */
+const DOCUMENT_KEYS = ['document', 'document_name', 'source_document', 'file_name', 'fileName', 'file', 'source']
+
+/** Keys the agent has been seen to use for a cited section */
+const SECTION_KEYS = ['section', 'policy_section', 'clause', 'page']
+
+/** Section mentioned shortly after a document name, e.g. "section 4.2" or "§ 3" */
+const SECTION_PATTERN = /^[^.\n]{0,40}?(?:section|sec\.|§|clause)\s*([0-9][\w.]*)/i
+
+/** Shortest document name matched in free text, so short names don't match common words */
+const MIN_MATCHED_NAME_LENGTH = 4
+
+/** How long a failed document list fetch is reused before it is tried again */
+const FAILED_FETCH_RETRY_MS = 30 * 1000
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Comparable form of a document name: no storage prefix or extension,
+ * lower case, separators as single spaces
+ */
+function normalizeName(name: string): string {
+  return name
+    .replace(/^storage\//, '')
+    .replace(/\.(pdf|docx|txt)$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number') return String(value)
+  return undefined
+}
+
+/**
+ * The knowledge-base document a reference points to
+ */
+export function matchPolicyDocument(reference: PolicySourceReference, documents: RAGDocument[]): RAGDocument | undefined {
+  const name = normalizeName(reference.document)
+  return documents.find(document => normalizeName(document.fileName) === name)
+}
+
+/**
+ * Read one cited source: a document name, or an object naming a document
+ * and optionally a section
+ */
+export function normalizePolicySource(value: unknown): PolicySourceReference | null {
+  const text = toText(value)
+  if (text) return { document: text }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const record = value as Record<string, unknown>
+  const document = DOCUMENT_KEYS.map(key => toText(record[key])).find(Boolean)
+  if (!document) return null
+  const section = SECTION_KEYS.map(key => toText(record[key])).find(Boolean)
+  return section ? { document, section } : { document }
+}
+
+/**
+ * Sources listed on an agent result
+ */
+export function getResultSources(result: Pick<ExpenseResult, 'sources'> | undefined): PolicySourceReference[] {
+  if (!Array.isArray(result?.sources)) return []
+  return result.sources
+    .map(normalizePolicySource)
+    .filter((reference): reference is PolicySourceReference => reference !== null)
+}
+
+/**
+ * Documents of the knowledge base named in a piece of text, with the section
+ * mentioned right after each, if any
+ */
+export function findPolicySources(text: string, documents: RAGDocument[]): PolicySourceReference[] {
+  const lower = text.toLowerCase()
+  const references: PolicySourceReference[] = []
+
+  for (const document of documents) {
+    const candidates = [document.fileName.toLowerCase(), normalizeName(document.fileName)]
+    let end = -1
+    for (const candidate of candidates) {
+      if (candidate.length < MIN_MATCHED_NAME_LENGTH) continue
+      const index = lower.indexOf(candidate)
+      if (index >= 0) {
+        end = index + candidate.length
+        break
+      }
+    }
+    if (end < 0) continue
+
+    const section = text.slice(end).match(SECTION_PATTERN)?.[1]?.replace(/\.$/, '')
+    references.push(section ? { document: document.fileName, section } : { document: document.fileName })
+  }
+  return references
+}
+
+/**
+ * References without repeats; a reference with a section wins over the same
+ * document without one
+ */
+export function uniquePolicySources(references: PolicySourceReference[]): PolicySourceReference[] {
+  const unique: PolicySourceReference[] = []
+  for (const reference of references) {
+    const name = normalizeName(reference.document)
+    const sameDocument = unique.filter(existing => normalizeName(existing.document) === name)
+    if (sameDocument.some(existing => existing.section === reference.section || !reference.section)) continue
+    const withoutSection = sameDocument.find(existing => !existing.section)
+    if (withoutSection) unique.splice(unique.indexOf(withoutSection), 1)
+    unique.push(reference)
+  }
+  return unique
+}
+
+// =============================================================================
+// Document List
+// =============================================================================
+
+let documentsRequest: Promise<{ documents: RAGDocument[]; error?: string }> | null = null
+let documentsFailedAt: number | null = null
+
+/**
+ * Document list of the policy knowledge base, fetched once per page load
+ * and shared by every view that links to it. A failed fetch is shared too,
+ * so a page of source links makes one request; it is retried once
+ * FAILED_FETCH_RETRY_MS has passed.
+ */
+export function loadPolicyDocuments(): Promise<{ documents: RAGDocument[]; error?: string }> {
+  if (documentsFailedAt !== null && Date.now() - documentsFailedAt >= FAILED_FETCH_RETRY_MS) {
+    documentsRequest = null
+    documentsFailedAt = null
+  }
+  if (!documentsRequest) {
+    documentsRequest = getDocuments(EXPENSE_POLICY_RAG_ID).then(result => {
+      if (result.success) return { documents: result.documents ?? [] }
+      documentsFailedAt = Date.now()
+      return { documents: [], error: result.error || 'Failed to load policy documents' }
+    })
+  }
+  return documentsRequest
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+export function usePolicyDocuments() {
+  const [documents, setDocuments] = useState<RAGDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let active = true
+    loadPolicyDocuments().then(result => {
+      if (!active) return
+      setDocuments(result.documents)
+      setError(result.error ?? null)
+      setLoading(false)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return {
+    documents,
+    loading,
+    error,
+  }
+}
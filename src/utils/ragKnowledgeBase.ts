@@ -24,14 +24,12 @@
  */
 
 import { useState } from 'react'
+import { LYZR_RAG_BASE_URL, LYZR_NOT_CONFIGURED_ERROR, isLyzrConfigured, lyzrHeaders } from '@/utils/lyzrConfig'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
-
 // Supported file types with their parsers
 const FILE_TYPE_CONFIG: Record<string, { type: 'pdf' | 'docx' | 'txt'; parser: string }> = {
   'application/pdf': { type: 'pdf', parser: 'pypdf' },
@@ -169,16 +167,15 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
+    if (!isLyzrConfigured()) {
+      return { success: false, error: LYZR_NOT_CONFIGURED_ERROR }
     }
 
     const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
       method: 'GET',
-      headers: {
+      headers: lyzrHeaders({
         'Accept': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+      }),
     })
 
     // Return empty array for 404 (no documents yet)
@@ -263,8 +260,8 @@ export async function uploadAndTrainDocument(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
+    if (!isLyzrConfigured()) {
+      return { success: false, error: LYZR_NOT_CONFIGURED_ERROR }
     }
 
     // Validate file
@@ -294,9 +291,7 @@ export async function uploadAndTrainDocument(
 
     const parseResponse = await fetch(parseUrl, {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
+      headers: lyzrHeaders(),
       body: parseFormData,
     })
 
@@ -323,11 +318,10 @@ export async function uploadAndTrainDocument(
 
     const trainResponse = await fetch(trainUrl, {
       method: 'POST',
-      headers: {
+      headers: lyzrHeaders({
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+      }),
       body: JSON.stringify(parseResult.documents),
     })
 
@@ -383,8 +377,8 @@ export async function deleteDocuments(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
+    if (!isLyzrConfigured()) {
+      return { success: false, error: LYZR_NOT_CONFIGURED_ERROR }
     }
 
     if (!documents || !Array.isArray(documents) || documents.length === 0) {
@@ -403,11 +397,10 @@ export async function deleteDocuments(
 
     const response = await fetch(deleteUrl, {
       method: 'DELETE',
-      headers: {
+      headers: lyzrHeaders({
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
+      }),
       body: JSON.stringify(formattedDocuments),
     })
 
@@ -0,0 +1,126 @@
+/**
+ * Receipt Extraction
+ *
+ * Extraction pass run right after a receipt is uploaded. The Expense
+ * Assistant Agent reads the receipt and returns `expense_details`, which are
+ * mapped onto the submission form so the user only reviews and corrects.
+ *
+ * @example
+ * ```tsx
+ * const extraction = await extractReceiptDetails(uploadResult.asset_ids)
+ * if (extraction.success) {
+ *   const fields = formFieldsFromDetails(extraction.data)
+ *   // { vendor: 'ABC Cafe', date: '2024-01-15', amount: '45.50', currency: 'USD', category: 'Meals' }
+ * }
+ * ```
+ */
+
+import { callAIAgent } from '@/utils/aiAgent'
+import { EXPENSE_AGENT_ID } from '@/utils/expenseAgent'
+import { EXPENSE_CATEGORIES } from '@/utils/expenseCategories'
+import { CURRENCIES } from '@/utils/currency'
+import type { ExpenseDetails, ExpenseFormData } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExtractionResult {
+  success: boolean
+  data?: ExpenseDetails
+  error?: string
+}
+
+/** Form fields the extraction pass can fill */
+export type ExtractableField = 'vendor' | 'date' | 'amount' | 'currency' | 'category'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const EXTRACTION_PROMPT = `Extract the expense details from the attached receipt.
+Return vendor, date, amount, currency, category and line items in expense_details.
+This is a pre-fill step only: do not treat it as a submission.`
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * Normalize an agent-reported date to the YYYY-MM-DD format of date inputs
+ */
+function toInputDate(value: string): string {
+  if (!value) return ''
+  if (ISO_DATE_PATTERN.test(value)) return value.slice(0, 10)
+
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return ''
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`
+}
+
+function toKnownCurrency(value: string): string {
+  const code = (value || '').trim().toUpperCase()
+  return CURRENCIES.includes(code) ? code : ''
+}
+
+function toKnownCategory(value: string): string {
+  const normalized = (value || '').trim().toLowerCase()
+  return EXPENSE_CATEGORIES.find(category => category.toLowerCase() === normalized) ?? ''
+}
+
+/**
+ * Map extracted details onto form fields. Fields the agent could not read,
+ * or that don't fit the form (unknown category or currency, zero amount),
+ * are left out.
+ */
+export function formFieldsFromDetails(details: ExpenseDetails): Partial<Pick<ExpenseFormData, ExtractableField>> {
+  const fields: Partial<Pick<ExpenseFormData, ExtractableField>> = {}
+
+  const vendor = (details.vendor || '').trim()
+  if (vendor) fields.vendor = vendor
+
+  const date = toInputDate(details.date)
+  if (date) fields.date = date
+
+  const amount = Number(details.amount)
+  if (Number.isFinite(amount) && amount > 0) fields.amount = amount.toFixed(2)
+
+  const currency = toKnownCurrency(details.currency)
+  if (currency) fields.currency = currency
+
+  const category = toKnownCategory(details.category)
+  if (category) fields.category = category
+
+  return fields
+}
+
+/**
+ * Ask the agent to read uploaded receipt assets
+ */
+export async function extractReceiptDetails(assetIds: string[]): Promise<ExtractionResult> {
+  if (assetIds.length === 0) {
+    return { success: false, error: 'No receipt uploaded' }
+  }
+
+  try {
+    const result = await callAIAgent(EXTRACTION_PROMPT, EXPENSE_AGENT_ID, { assets: assetIds })
+    const details = result.response?.result?.expense_details as ExpenseDetails | undefined
+
+    if (!result.success || result.response.status !== 'success') {
+      return { success: false, error: result.response?.message || result.error || 'Extraction failed' }
+    }
+    if (!details) {
+      return { success: false, error: 'The agent did not return receipt details' }
+    }
+
+    return { success: true, data: details }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Extraction failed' }
+  }
+}
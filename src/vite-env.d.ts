@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_AGENT_ID?: string
   readonly VITE_LYZR_API_KEY?: string
   readonly VITE_API_URL?: string
+  readonly VITE_USE_LYZR_PROXY?: string
+  readonly VITE_EXPENSE_STORE?: 'indexeddb' | 'server'
 }
 
 interface ImportMeta {
@@ -20,6 +20,10 @@ export default defineConfig({
       clientPort: 3333,
       protocol: 'wss',
     },
+    proxy: {
+      // Local ExpenseFlow API (npm run server)
+      '/api': `http://localhost:${process.env.EXPENSE_SERVER_PORT || 8787}`,
+    },
   },
   build: {
     outDir: 'dist',